@@ -1,7 +1,15 @@
 import React from 'react';
 import Visualization from './components/Visualization';
+import LoginDialog from './components/LoginDialog';
+import { useAuth } from './state/useAuth';
 
 const App: React.FC = () => {
+  const { session, reauthRequired } = useAuth();
+
+  if (!session) {
+    return <LoginDialog mode="signIn" />;
+  }
+
   return (
     <div className="w-full h-full bg-background text-white font-sans selection:bg-purple-500/30 selection:text-purple-200">
        {/* Background decorative elements */}
@@ -11,8 +19,11 @@ const App: React.FC = () => {
        </div>
        
        <div className="relative z-10 w-full h-full">
-         <Visualization />
+         {/* Keyed by user: signing in as someone else starts from a clean slate */}
+         <Visualization key={session.userId} />
        </div>
+
+       {reauthRequired && <LoginDialog mode="reauth" defaultUsername={session.userId} />}
     </div>
   );
 };
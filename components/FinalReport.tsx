@@ -1,63 +1,215 @@
-import React, { useMemo } from 'react';
-import { Sparkles } from 'lucide-react';
+import React, { useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Sparkles, Download, FileText, FileCode, Printer, ChevronDown, BookOpen, Crosshair, ExternalLink, MessageSquareReply } from 'lucide-react';
 import { Viewer } from '@bytemd/react';
-import gfm from '@bytemd/plugin-gfm';
-import highlight from '@bytemd/plugin-highlight';
-
-const plugins = [
-  gfm(),
-  highlight(),
-];
+import { markdownPlugins } from '../utils/markdown';
+import { SourceInfo, extractCitations, replaceSourceTags, resolveSources } from '../utils/sources';
+import { downloadReportHtml, downloadReportMarkdown, printReport } from '../utils/reportExport';
+import { TreeStoreContext, useSourceIndex } from '../state/treeStoreContext';
+import { createTreeStore } from '../state/treeStore';
+import { useFollowUp } from '../state/followUpContext';
+import { useI18n } from '../i18n/useI18n';
 
 // Workaround for type definition mismatch in @bytemd/react
 const MarkdownViewer = Viewer as any;
 
+// Stands in for the tree when the report is rendered outside one (no sources to resolve)
+const EMPTY_STORE = createTreeStore();
+
 interface Props {
   report: string;
+  /** The node the report belongs to, for following up on it. */
+  nodeId?: string;
+}
+
+const ExportMenu: React.FC<{ report: string; sources: SourceInfo[] }> = ({ report, sources }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [isOpen]);
+
+  const run = (action: (report: string, sources: SourceInfo[]) => void) => {
+    setIsOpen(false);
+    action(report, sources);
+  };
+
+  const itemClass = 'w-full flex items-center gap-2 px-3 py-2 text-left text-xs text-slate-300 hover:bg-slate-800 hover:text-white transition-colors';
+
+  return (
+    <div ref={menuRef} className="relative ml-auto">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs text-green-300/80 hover:text-green-100 hover:bg-green-500/10 transition-colors"
+      >
+        <Download size={14} />
+        <span>{t('report.export')}</span>
+        <ChevronDown size={12} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-48 py-1 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-20">
+          <button className={itemClass} onClick={() => run(downloadReportMarkdown)}>
+            <FileText size={14} className="text-slate-500" />
+            Markdown (.md)
+          </button>
+          <button className={itemClass} onClick={() => run(downloadReportHtml)}>
+            <FileCode size={14} className="text-slate-500" />
+            {t('report.exportHtml')}
+          </button>
+          <button className={itemClass} onClick={() => run(printReport)}>
+            <Printer size={14} className="text-slate-500" />
+            {t('report.print')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface PreviewState {
+  source: SourceInfo;
+  top: number;
+  left: number;
 }
 
-export const FinalReport: React.FC<Props> = ({ report }) => {
+const PREVIEW_WIDTH = 320;
+const CITATION_TEXT = /^\[(\d+)\]$/;
+
+const SourcePreview: React.FC<PreviewState> = ({ source, top, left }) => (
+  <div
+    className="fixed z-50 p-3 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl pointer-events-none animate-in fade-in duration-150"
+    style={{ top, left, width: PREVIEW_WIDTH }}
+  >
+    <div className="text-[10px] font-mono text-green-400/80 mb-1">[{source.index}] {source.domain}</div>
+    <div className="text-xs font-semibold text-slate-100 leading-snug line-clamp-2">{source.title || source.url}</div>
+    {source.snippet && (
+      <div className="mt-1.5 text-[11px] text-slate-400 leading-relaxed line-clamp-4">{source.snippet}</div>
+    )}
+  </div>
+);
+
+const References: React.FC<{ sources: SourceInfo[]; onReveal?: (nodeId: string) => void }> = ({ sources, onReveal }) => {
+  const { t } = useI18n();
+  return (
+    <div className="mt-6 pt-4 border-t border-green-500/20">
+      <h3 className="flex items-center gap-2 text-xs font-bold text-green-200/90 uppercase tracking-wider mb-3">
+        <BookOpen size={14} />
+        {t('report.references')}
+      </h3>
+      <ol className="space-y-2">
+        {sources.map(source => (
+          <li key={source.url} id={`ref-${source.index}`} className="flex items-start gap-2 text-xs">
+            <span className="shrink-0 font-mono text-green-400/80 w-7 text-right">[{source.index}]</span>
+            <div className="min-w-0 flex-1">
+              <a
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-slate-200 hover:text-green-300 font-medium inline-flex items-center gap-1"
+              >
+                <span className="truncate">{source.title || source.domain}</span>
+                <ExternalLink size={10} className="shrink-0 opacity-60" />
+              </a>
+              <div className="text-[10px] text-slate-500 font-mono truncate">{source.url}</div>
+            </div>
+            {source.nodeId && onReveal && (
+              <button
+                onClick={() => onReveal(source.nodeId!)}
+                className="shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-slate-400 hover:text-amber-300 hover:bg-amber-500/10 transition-colors"
+                title={t('report.locateTitle')}
+              >
+                <Crosshair size={12} />
+                {t('report.locate')}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export const FinalReport: React.FC<Props> = ({ report, nodeId }) => {
+  // The report may be rendered outside a tree (then sources can't be linked back)
+  const { t } = useI18n();
+  const store = useContext(TreeStoreContext);
+  const followUp = useFollowUp();
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+
   const processedContent = useMemo(() => {
     if (!report) return '';
-    
-    let content = report;
-
-    // Pattern 1: <source: http://example.com>
-    // Replace <source: url> patterns with Markdown links
-    content = content.replace(/<source:\s*([^>]+)>/gi, (_, url) => {
-      const cleanUrl = url.trim();
-      return ` [[Source]](${cleanUrl})`;
-    });
-
-    // Pattern 2: <source>http://example.com</source>
-    // Replace standard XML-like source tags
-    content = content.replace(/<source>(.*?)<\/source>/gi, (_, url) => {
-      const cleanUrl = url.trim();
-      return ` [[Source]](${cleanUrl})`;
-    });
-
-    return content;
+
+    // Replace <source: url> and <source>url</source> patterns with numbered Markdown links
+    return replaceSourceTags(report, ({ index, url }) => ` [[${index}]](${url})`);
   }, [report]);
 
+  // Changes only when a tool node does, so sources fill in as fetches and searches arrive
+  const sourceIndex = useSourceIndex(store || EMPTY_STORE);
+  const citations = useMemo(() => (report ? extractCitations(report).citations : []), [report]);
+  const sources = useMemo(() => resolveSources(citations, sourceIndex), [citations, sourceIndex]);
+
+  // The preview is positioned against the viewport; drop it once anything scrolls
+  useEffect(() => {
+    if (!preview) return;
+    const hide = () => setPreview(null);
+    window.addEventListener('scroll', hide, { capture: true, passive: true });
+    return () => window.removeEventListener('scroll', hide, { capture: true });
+  }, [preview]);
+
+  // Citation links are rendered by ByteMD, so previews use event delegation on the container
+  const handleMouseOver = (e: React.MouseEvent) => {
+    const anchor = (e.target as HTMLElement).closest('a');
+    const match = anchor?.textContent?.trim().match(CITATION_TEXT);
+    const source = match ? sources[Number(match[1]) - 1] : undefined;
+    if (!anchor || !source || anchor.getAttribute('href') !== source.url) return;
+    const rect = anchor.getBoundingClientRect();
+    const left = Math.min(Math.max(8, rect.left), window.innerWidth - PREVIEW_WIDTH - 8);
+    setPreview({ source, top: rect.bottom + 6, left });
+  };
+
+  const handleMouseOut = (e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest('a')) setPreview(null);
+  };
+
   if (!report) return null;
 
   return (
     <div className="mt-4 mb-2 animate-in zoom-in-95 duration-500">
-      <div className="bg-gradient-to-br from-green-900/20 to-emerald-900/10 border border-green-500/30 rounded-xl overflow-hidden shadow-2xl shadow-green-900/20">
-        <div className="bg-green-500/10 p-3 border-b border-green-500/20 flex items-center gap-2">
+      <div className="bg-gradient-to-br from-green-900/20 to-emerald-900/10 border border-green-500/30 rounded-xl shadow-2xl shadow-green-900/20">
+        <div className="bg-green-500/10 p-3 border-b border-green-500/20 flex items-center gap-2 rounded-t-xl">
           <Sparkles className="w-4 h-4 text-green-400" />
-          <h2 className="text-sm font-bold text-green-100">最终研究报告</h2>
+          <h2 className="text-sm font-bold text-green-100">{t('report.title')}</h2>
+          <ExportMenu report={report} sources={sources} />
+          {followUp && nodeId && (
+            <button
+              onClick={() => followUp(nodeId)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs text-green-300/80 hover:text-green-100 hover:bg-green-500/10 transition-colors"
+              title={t('followUp.action')}
+            >
+              <MessageSquareReply size={14} />
+              <span className="hidden md:inline">{t('followUp.short')}</span>
+            </button>
+          )}
         </div>
         <div className="p-4 md:p-6 text-sm text-slate-200">
            {/* ByteMD Viewer renders with .markdown-body class. Styles are overridden in index.html */}
-           <div className="w-full break-words">
-               <MarkdownViewer value={processedContent} plugins={plugins} />
+           <div className="w-full break-words" onMouseOver={handleMouseOver} onMouseOut={handleMouseOut}>
+               <MarkdownViewer value={processedContent} plugins={markdownPlugins} />
            </div>
+           {sources.length > 0 && <References sources={sources} onReveal={store?.revealNode} />}
         </div>
-        <div className="bg-green-950/30 p-2 text-center text-[10px] text-green-600/60 uppercase tracking-widest font-semibold">
-            传输结束
+        <div className="bg-green-950/30 p-2 text-center text-[10px] text-green-600/60 uppercase tracking-widest font-semibold rounded-b-xl">
+            {t('report.footer')}
         </div>
       </div>
+      {preview && <SourcePreview {...preview} />}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, X, TextSearch } from 'lucide-react';
+import { searchTree } from '../state/treeSearch';
+import { TreeSearchState } from '../state/treeSearchContext';
+import { useTreeSelector, useTreeStore } from '../state/treeStoreContext';
+import { useI18n } from '../i18n/useI18n';
+
+interface Props {
+  /** Receives the query and current match, for highlighting in the node cards. */
+  onSearchChange: (search: TreeSearchState) => void;
+  onClose: () => void;
+  inputRef?: React.RefObject<HTMLInputElement | null>;
+}
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+/**
+ * Find-in-tree bar: searches every node's content, tool arguments and tool results,
+ * and reveals the current match (expanding collapsed cards and scrolling to it).
+ */
+const FindBar: React.FC<Props> = ({ onSearchChange, onClose, inputRef }) => {
+  const { t } = useI18n();
+  const store = useTreeStore();
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  // Follows the tree only while there is something to search for
+  const state = useTreeSelector(current => (query ? current : null));
+  const [activeIndex, setActiveIndex] = useState(0);
+  const revealOnUpdateRef = useRef(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(input.trim());
+      setActiveIndex(0);
+      revealOnUpdateRef.current = true;
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  // Re-evaluated as the tree changes, so live runs keep the counts current
+  // (cheap: only nodes that changed since the last frame are searched again)
+  const matches = useMemo(() => (state ? searchTree(state, query) : []), [state, query]);
+  const index = matches.length === 0 ? -1 : Math.min(activeIndex, matches.length - 1);
+  const activeMatch = index >= 0 ? matches[index] : null;
+
+  useEffect(() => {
+    onSearchChange({ query, activeMatch });
+    // Jump to the match after a new query or navigation, not when streaming changes the counts
+    if (revealOnUpdateRef.current && activeMatch) store.revealNode(activeMatch.nodeId);
+    revealOnUpdateRef.current = false;
+  }, [query, activeMatch?.nodeId, activeMatch?.field, activeMatch?.occurrence, store, onSearchChange]);
+
+  // Clear highlights when the bar closes
+  useEffect(() => () => onSearchChange({ query: '', activeMatch: null }), [onSearchChange]);
+
+  const step = (delta: number) => {
+    if (matches.length === 0) return;
+    revealOnUpdateRef.current = true;
+    setActiveIndex((index + delta + matches.length) % matches.length);
+    // Same match again (a single result): the effect won't re-run, so reveal directly
+    if (matches.length === 1) store.revealNode(matches[0].nodeId);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      step(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const buttonClass = 'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center gap-2 px-4 md:px-6 py-2 border-b border-white/5 bg-slate-900/60 backdrop-blur-sm text-xs shrink-0 z-20">
+      <TextSearch size={14} className="text-slate-500 shrink-0" />
+      <input
+        ref={inputRef}
+        autoFocus
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('find.placeholder')}
+        className="flex-1 min-w-0 bg-transparent text-sm text-slate-100 placeholder-slate-500 focus:outline-none"
+      />
+      <span className={`font-mono whitespace-nowrap ${query && matches.length === 0 ? 'text-red-400/80' : 'text-slate-500'}`}>
+        {query ? (matches.length > 0 ? `${index + 1} / ${matches.length}` : t('find.noResults')) : ''}
+      </span>
+      <button className={buttonClass} onClick={() => step(-1)} disabled={matches.length === 0} title={t('find.previous')}>
+        <ChevronUp size={14} />
+      </button>
+      <button className={buttonClass} onClick={() => step(1)} disabled={matches.length === 0} title={t('find.next')}>
+        <ChevronDown size={14} />
+      </button>
+      <button className={buttonClass} onClick={onClose} title={t('find.close')}>
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default FindBar;
@@ -0,0 +1,340 @@
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Maximize, Minus, Plus } from 'lucide-react';
+import { Role } from '../types';
+import { GraphLayout, layoutGraph } from '../state/graphLayout';
+import { isNodeEffectivelyDone } from '../state/flattenTree';
+import { nodeHasMatches } from '../state/treeSearch';
+import { TreeSearchContext } from '../state/treeSearchContext';
+import { useTreeNode, useTreeNodeSelector, useTreeSelector, useTreeStore } from '../state/treeStoreContext';
+import { useI18n } from '../i18n/useI18n';
+import { ROLE_FILLS, ROLE_LABEL_KEYS } from './ResearchNode';
+import NodeDetailsPanel from './NodeDetailsPanel';
+
+interface Props {
+  /** Switches to the tree view with the node revealed. */
+  onShowInTree: (nodeId: string) => void;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const STREAMING_COLOR = '#60a5fa';
+const ERROR_COLOR = '#ef4444';
+const CANCELLED_COLOR = '#f59e0b';
+const INTERRUPTED_COLOR = '#fb923c';
+const HIGHLIGHT_COLOR = '#fbbf24';
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+const ZOOM_STEP = 1.25;
+const FIT_PADDING = 40;
+// Pointer movement before a press on the canvas becomes a pan instead of a click
+const DRAG_THRESHOLD_PX = 4;
+const LABEL_LENGTH = 28;
+const REVEAL_HIGHLIGHT_MS = 2000;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const nodeRadius = (role: Role) => (role === Role.TOOL_CALL || role === Role.TOOL ? 5 : 7);
+
+const truncateLabel = (text: string) => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > LABEL_LENGTH ? `${line.slice(0, LABEL_LENGTH)}…` : line;
+};
+
+// Streaming and not effectively done (see isNodeEffectivelyDone)
+const useIsNodeActive = (nodeId: string) =>
+  useTreeNodeSelector(nodeId, (node, treeStore) =>
+    node?.status === 'streaming' && !isNodeEffectivelyDone(node, treeStore.getState().nodes)
+  );
+
+interface EdgeProps {
+  /** The child end of the edge; the edge is lit while that node streams. */
+  toId: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+const GraphEdgePath: React.FC<EdgeProps> = React.memo(({ toId, x1, y1, x2, y2 }) => {
+  const midX = (x1 + x2) / 2;
+  const isActive = useIsNodeActive(toId);
+  return (
+    <path
+      d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+      fill="none"
+      stroke={isActive ? STREAMING_COLOR : '#475569'}
+      strokeOpacity={isActive ? 0.8 : 0.6}
+      strokeWidth={1.25}
+    />
+  );
+});
+
+interface MarkProps {
+  nodeId: string;
+  x: number;
+  y: number;
+  isUnattached: boolean;
+  isSelected: boolean;
+  isHighlighted: boolean;
+  /** The find-bar query, for marking nodes with matches. */
+  query: string;
+  onSelect: (nodeId: string) => void;
+}
+
+// Subscribes to its own node, so streaming re-renders only the marks whose node changed
+const GraphNodeMark: React.FC<MarkProps> = React.memo(({ nodeId, x, y, isUnattached, isSelected, isHighlighted, query, onSelect }) => {
+  const { t } = useI18n();
+  const node = useTreeNode(nodeId);
+  const isDone = useTreeNodeSelector(nodeId, (current, treeStore) =>
+    !!current && isNodeEffectivelyDone(current, treeStore.getState().nodes)
+  );
+  if (!node) return null;
+
+  const radius = nodeRadius(node.role);
+  const name = node.role === Role.HUMAN ? node.content : node.name;
+  const isStreaming = node.status === 'streaming' && !isDone;
+  const isError = node.status === 'error' || node.role === Role.ERROR;
+  const isCancelled = node.status === 'cancelled' && !isDone;
+  const isInterrupted = node.status === 'interrupted' && !isDone;
+  const isMatch = nodeHasMatches(node, query);
+
+  return (
+    <g transform={`translate(${x}, ${y})`} className="cursor-pointer" onClick={() => onSelect(nodeId)}>
+      <title>{`${name} · ${t(ROLE_LABEL_KEYS[node.role] || 'node.role.system')}`}</title>
+      {(isSelected || isHighlighted || isMatch) && (
+        <circle
+          r={radius + 6}
+          fill={isMatch && !isSelected ? HIGHLIGHT_COLOR : 'none'}
+          fillOpacity={0.2}
+          stroke={isSelected ? '#e2e8f0' : HIGHLIGHT_COLOR}
+          strokeWidth={isHighlighted || isSelected ? 2 : 1}
+        />
+      )}
+      {isStreaming && (
+        <circle r={radius + 3.5} fill="none" stroke={STREAMING_COLOR} strokeWidth={2} className="animate-pulse" />
+      )}
+      <circle
+        r={radius}
+        fill={ROLE_FILLS[node.role] || ROLE_FILLS[Role.SYSTEM]}
+        fillOpacity={isDone || isError ? 1 : 0.55}
+        stroke={isError ? ERROR_COLOR : isCancelled ? CANCELLED_COLOR : isInterrupted ? INTERRUPTED_COLOR : '#0f172a'}
+        strokeWidth={isError || isCancelled || isInterrupted ? 2.5 : 1.5}
+        strokeDasharray={isUnattached || isCancelled ? '2 2' : undefined}
+      />
+      {node.isFinal && <circle r={2.5} fill="#f8fafc" />}
+      <text x={radius + 6} y={4} fontSize={11} className={isSelected ? 'fill-slate-100' : 'fill-slate-400'}>
+        {truncateLabel(name)}
+      </text>
+    </g>
+  );
+});
+
+/**
+ * The research tree as a zoomable, pannable node-link graph (depth left to right), colored by
+ * role and status. Clicking a node opens its card in a side panel; the graph follows the stream.
+ */
+const GraphView: React.FC<Props> = ({ onShowInTree }) => {
+  const { t } = useI18n();
+  const store = useTreeStore();
+  // Laid out again only when nodes are added or re-linked; the marks follow their own node
+  const layoutRef = useRef<GraphLayout>();
+  const layout = useTreeSelector(state => (layoutRef.current = layoutGraph(state, layoutRef.current)));
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>({ x: FIT_PADDING, y: FIT_PADDING, scale: 1 });
+  // Until the user pans or zooms, the view keeps fitting the growing graph
+  const userMovedRef = useRef(false);
+  const dragRef = useRef<{ startX: number; startY: number; x: number; y: number; moved: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  // Find-bar matches are marked on the graph
+  const { query } = useContext(TreeSearchContext);
+
+  const fitToView = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || !layoutRef.current) return;
+    const { width, height } = layoutRef.current;
+    const scale = clampScale(Math.min(
+      (container.clientWidth - FIT_PADDING * 2) / width,
+      (container.clientHeight - FIT_PADDING * 2) / height,
+      1
+    ));
+    setViewport({
+      scale,
+      x: (container.clientWidth - width * scale) / 2,
+      y: Math.max(FIT_PADDING, (container.clientHeight - height * scale) / 2),
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!userMovedRef.current) fitToView();
+  }, [layout.width, layout.height, fitToView]);
+
+  const zoomAt = useCallback((px: number, py: number, factor: number) => {
+    userMovedRef.current = true;
+    setViewport(current => {
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      return { scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio };
+    });
+  }, []);
+
+  const zoomAtCenter = (factor: number) => {
+    const container = containerRef.current;
+    if (container) zoomAt(container.clientWidth / 2, container.clientHeight / 2, factor);
+  };
+
+  // Wheel zoom around the pointer (a native listener: React's wheel handlers are passive)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * 0.0015));
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    dragRef.current = { startX: e.clientX, startY: e.clientY, x: viewport.x, y: viewport.y, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved) {
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+      drag.moved = true;
+      userMovedRef.current = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setViewport(current => ({ ...current, x: drag.x + dx, y: drag.y + dy }));
+  };
+
+  const handlePointerUp = () => {
+    // A press that panned isn't a click on the node under the pointer
+    suppressClickRef.current = !!dragRef.current?.moved;
+    dragRef.current = null;
+  };
+
+  const handleSelect = useCallback((nodeId: string) => {
+    if (suppressClickRef.current) return;
+    setSelectedId(current => (current === nodeId ? null : nodeId));
+  }, []);
+
+  // Reveal requests (find bar, report references) center the node
+  useEffect(() => store.onReveal((nodeId) => {
+    const container = containerRef.current;
+    const node = layoutRef.current?.nodes.find(candidate => candidate.id === nodeId);
+    if (!container || !node) return;
+    userMovedRef.current = true;
+    setViewport(current => ({
+      ...current,
+      x: container.clientWidth / 2 - node.x * current.scale,
+      y: container.clientHeight / 2 - node.y * current.scale,
+    }));
+    setHighlightedId(nodeId);
+  }), [store]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), REVEAL_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const hasSelectedNode = useTreeSelector(current => !!selectedId && current.nodes.has(selectedId));
+  const buttonClass = 'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors';
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full overflow-hidden select-none">
+      {layout.nodes.length === 0 ? (
+        <div className="h-full flex items-center justify-center text-slate-600 text-sm">{t('app.empty')}</div>
+      ) : (
+        <svg
+          className="w-full h-full cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <g transform={`translate(${viewport.x}, ${viewport.y}) scale(${viewport.scale})`}>
+            {layout.edges.map(({ id, from, to }) => (
+              <GraphEdgePath
+                key={id}
+                toId={to.id}
+                x1={from.x + nodeRadius(from.role)}
+                y1={from.y}
+                x2={to.x - nodeRadius(to.role)}
+                y2={to.y}
+              />
+            ))}
+            {layout.nodes.map(node => (
+              <GraphNodeMark
+                key={node.id}
+                nodeId={node.id}
+                x={node.x}
+                y={node.y}
+                isUnattached={node.isUnattached}
+                isSelected={node.id === selectedId}
+                isHighlighted={node.id === highlightedId}
+                query={query}
+                onSelect={handleSelect}
+              />
+            ))}
+          </g>
+        </svg>
+      )}
+
+      {/* Legend */}
+      <div className="absolute top-3 left-3 flex flex-wrap items-center gap-x-3 gap-y-1 max-w-[60%] px-2.5 py-1.5 rounded-lg bg-slate-900/80 border border-slate-700/50 text-[10px] text-slate-400">
+        {[Role.HUMAN, Role.ASSISTANT, Role.TOOL_CALL, Role.TOOL, Role.ERROR].map(role => (
+          <span key={role} className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ROLE_FILLS[role] }} />
+            {t(ROLE_LABEL_KEYS[role])}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="w-2.5 h-2.5 rounded-full border-2 animate-pulse" style={{ borderColor: STREAMING_COLOR }} />
+          {t('graph.streaming')}
+        </span>
+      </div>
+
+      {/* Zoom controls */}
+      <div className={`absolute top-3 flex flex-col gap-0.5 p-0.5 rounded-lg bg-slate-900/80 border border-slate-700/50 ${hasSelectedNode ? 'right-3 md:right-[29rem]' : 'right-3'}`}>
+        <button className={buttonClass} onClick={() => zoomAtCenter(ZOOM_STEP)} title={t('zoom.in')}>
+          <Plus size={14} />
+        </button>
+        <button className={buttonClass} onClick={() => zoomAtCenter(1 / ZOOM_STEP)} title={t('zoom.out')}>
+          <Minus size={14} />
+        </button>
+        <button
+          className={buttonClass}
+          onClick={() => { userMovedRef.current = false; fitToView(); }}
+          title={t('zoom.fit')}
+        >
+          <Maximize size={14} />
+        </button>
+      </div>
+
+      {/* Details of the selected node */}
+      {selectedId && hasSelectedNode && (
+        <NodeDetailsPanel nodeId={selectedId} onShowInTree={onShowInTree} onClose={() => setSelectedId(null)} />
+      )}
+    </div>
+  );
+};
+
+export default GraphView;
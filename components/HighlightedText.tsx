@@ -0,0 +1,40 @@
+import React from 'react';
+import { findOccurrences } from '../state/treeSearch';
+
+interface Props {
+  text: string;
+  query: string;
+  /** Occurrence rendered as the current match (-1 for none). */
+  activeOccurrence?: number;
+}
+
+/**
+ * Renders text with every case-insensitive occurrence of `query` wrapped in a `<mark>`.
+ * The current match carries `data-find-active` so it can be scrolled into view.
+ */
+const HighlightedText: React.FC<Props> = ({ text, query, activeOccurrence = -1 }) => {
+  const starts = findOccurrences(text, query);
+  if (starts.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  starts.forEach((start, occurrence) => {
+    const isActive = occurrence === activeOccurrence;
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark
+        key={start}
+        data-find-active={isActive || undefined}
+        className={`rounded-sm px-0.5 -mx-0.5 ${isActive ? 'bg-amber-400 text-slate-950' : 'bg-amber-400/30 text-inherit'}`}
+      >
+        {text.slice(start, start + query.length)}
+      </mark>
+    );
+    cursor = start + query.length;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, Locale } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+interface Props {
+  className?: string;
+}
+
+/**
+ * UI language picker; the choice is remembered by this browser.
+ */
+const LanguageSwitcher: React.FC<Props> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label
+      title={t('header.language')}
+      className={`flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200 bg-slate-800/50 border border-slate-700/50 rounded-md px-2 py-1.5 transition-colors ${className}`}
+    >
+      <Languages size={14} />
+      <select
+        aria-label={t('header.language')}
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent focus:outline-none cursor-pointer"
+      >
+        {LOCALES.map(({ value, label }) => (
+          <option key={value} value={value} className="bg-slate-900">{label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
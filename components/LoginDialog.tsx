@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Activity, Loader2, LogIn, LogOut, ShieldAlert } from 'lucide-react';
+import { authStore } from '../services/auth';
+import { useI18n } from '../i18n/useI18n';
+import LanguageSwitcher from './LanguageSwitcher';
+
+interface Props {
+  /** 'reauth' is shown over the app after a 401; the current work stays in place behind it. */
+  mode: 'signIn' | 'reauth';
+  defaultUsername?: string;
+}
+
+/**
+ * Sign-in form for the configured identity provider.
+ */
+const LoginDialog: React.FC<Props> = ({ mode, defaultUsername = '' }) => {
+  const { t } = useI18n();
+  const [username, setUsername] = useState(defaultUsername);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isStub = authStore.provider.kind === 'stub';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || isSubmitting) return;
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await authStore.signIn({ username: username.trim(), password });
+    } catch (err: any) {
+      setError(err.message || t('auth.error.failed'));
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-slate-950/60 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500/50';
+
+  return (
+    <div className={`fixed inset-0 z-[60] flex items-center justify-center p-4 ${mode === 'reauth' ? 'bg-black/60 backdrop-blur-sm' : 'bg-background'}`}>
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm p-6 bg-slate-900 border border-slate-700/50 rounded-xl shadow-2xl animate-in zoom-in-95 duration-200"
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <div className={`p-2 rounded-lg border ${mode === 'reauth' ? 'bg-amber-500/10 border-amber-500/20' : 'bg-blue-500/10 border-blue-500/20'}`}>
+            {mode === 'reauth' ? <ShieldAlert className="text-amber-400 w-5 h-5" /> : <Activity className="text-blue-400 w-5 h-5" />}
+          </div>
+          <div>
+            <h2 className="text-base font-bold text-slate-100">{t(mode === 'reauth' ? 'auth.expiredTitle' : 'auth.signInTitle')}</h2>
+            <p className="text-xs text-slate-500">
+              {t(mode === 'reauth' ? 'auth.expiredHint' : 'auth.signInHint')}
+            </p>
+          </div>
+          <LanguageSwitcher className="ml-auto self-start shrink-0" />
+        </div>
+
+        <div className="space-y-3">
+          <input
+            autoFocus
+            className={inputClass}
+            placeholder={t('auth.username')}
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <input
+            type="password"
+            className={inputClass}
+            placeholder={t(isStub ? 'auth.passwordOptional' : 'auth.password')}
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+
+        {error && <div className="mt-3 text-xs text-red-400">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={!username.trim() || isSubmitting}
+          className="mt-5 w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white p-2.5 rounded-lg transition-colors font-medium text-sm"
+        >
+          {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : <LogIn size={16} />}
+          <span>{t('auth.signIn')}</span>
+        </button>
+
+        {mode === 'reauth' && (
+          <button
+            type="button"
+            onClick={() => authStore.signOut()}
+            className="mt-2 w-full flex items-center justify-center gap-2 text-xs text-slate-500 hover:text-slate-300 py-2 transition-colors"
+          >
+            <LogOut size={14} />
+            <span>{t('auth.signOut')}</span>
+          </button>
+        )}
+
+        {isStub && (
+          <p className="mt-4 text-[10px] text-slate-600 leading-relaxed">
+            {t('auth.stubNotice')}
+          </p>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default LoginDialog;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ListTree, X } from 'lucide-react';
+import { useTreeNode, useTreeSelector } from '../state/treeStoreContext';
+import { isAttemptSettled } from '../state/researchTree';
+import { useI18n } from '../i18n/useI18n';
+import ResearchNode, { NodeFinalReport } from './ResearchNode';
+
+interface Props {
+  nodeId: string;
+  /** Switches to the tree view with the node revealed. */
+  onShowInTree: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Side panel with a node's card (and its final report), opened from the graph and timeline views.
+ * Renders nothing once the node is gone (e.g. another session was loaded).
+ */
+const NodeDetailsPanel: React.FC<Props> = ({ nodeId, onShowInTree, onClose }) => {
+  const { t } = useI18n();
+  const node = useTreeNode(nodeId);
+  // A single card, so it can afford to watch the tree for its prompt's run
+  const isRunSettled = useTreeSelector(state => isAttemptSettled(state, nodeId));
+  if (!node) return null;
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 w-full md:w-[28rem] flex flex-col bg-slate-950/95 border-l border-slate-800 shadow-2xl z-10 animate-in slide-in-from-right-4 duration-200">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-800 text-xs">
+        <span className="font-semibold text-slate-300">{t('details.title')}</span>
+        <button
+          onClick={() => onShowInTree(nodeId)}
+          className="ml-auto flex items-center gap-1.5 px-2 py-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+        >
+          <ListTree size={14} />
+          {t('details.showInTree')}
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+          title={t('details.close')}
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto p-3 pb-40 custom-scrollbar">
+        <ResearchNode nodeId={nodeId} isRunSettled={isRunSettled} />
+        <NodeFinalReport nodeId={nodeId} />
+      </div>
+    </div>
+  );
+};
+
+export default NodeDetailsPanel;
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTreeSelector, useTreeStore } from '../state/treeStoreContext';
+import { selectAlternative } from '../state/researchTree';
+import { useI18n } from '../i18n/useI18n';
+import { ChevronLeft, ChevronRight, Play } from 'lucide-react';
+
+/**
+ * "‹ 2/3 ›" switcher on a re-sent prompt: shows another attempt (the prompt and its run) in place
+ * of the current one. Nothing for prompts that were sent only once.
+ */
+export const AttemptSwitcher: React.FC<{ groupId: string }> = ({ groupId }) => {
+  const { t } = useI18n();
+  const store = useTreeStore();
+  const group = useTreeSelector(state => state.alternatives.get(groupId));
+  if (!group || group.attemptIds.length < 2) return null;
+
+  const { activeIndex, attemptIds } = group;
+  const select = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    store.update(state => selectAlternative(state, groupId, index));
+  };
+
+  return (
+    <span className="flex items-center text-[10px] font-mono text-slate-400" title={t('attempts.title')}>
+      <button
+        onClick={(e) => select(e, activeIndex - 1)}
+        disabled={activeIndex === 0}
+        className="p-0.5 rounded hover:text-blue-300 hover:bg-blue-500/10 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+        title={t('attempts.previous')}
+      >
+        <ChevronLeft size={12} />
+      </button>
+      <span className="tabular-nums">{t('attempts.position', { index: activeIndex + 1, count: attemptIds.length })}</span>
+      <button
+        onClick={(e) => select(e, activeIndex + 1)}
+        disabled={activeIndex === attemptIds.length - 1}
+        className="p-0.5 rounded hover:text-blue-300 hover:bg-blue-500/10 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+        title={t('attempts.next')}
+      >
+        <ChevronRight size={12} />
+      </button>
+    </span>
+  );
+};
+
+interface PromptEditorProps {
+  initialText: string;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline editor for "edit & rerun" on a prompt card. Ctrl/Cmd + Enter submits, Escape cancels.
+ */
+export const PromptEditor: React.FC<PromptEditorProps> = ({ initialText, onSubmit, onCancel }) => {
+  const { t } = useI18n();
+  const [text, setText] = useState(initialText);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  }, []);
+
+  // Grow with the text, like the composer
+  useEffect(() => {
+    if (!textareaRef.current) return;
+    textareaRef.current.style.height = 'auto';
+    textareaRef.current.style.height = `${Math.min(textareaRef.current.scrollHeight, 300)}px`;
+  }, [text]);
+
+  const canSubmit = text.trim().length > 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && canSubmit) {
+      e.preventDefault();
+      onSubmit(text);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 mt-1 min-w-[16rem] md:min-w-[28rem]">
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={2}
+        className="w-full bg-slate-950/60 border border-slate-700 rounded-md px-2 py-1.5 text-xs md:text-sm font-mono text-slate-200 resize-none focus:outline-none focus:border-blue-500/60"
+      />
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-2 py-1 rounded text-xs text-slate-400 hover:text-slate-200 hover:bg-slate-800"
+        >
+          {t('attempts.cancel')}
+        </button>
+        <button
+          onClick={() => onSubmit(text)}
+          disabled={!canSubmit}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600"
+        >
+          <Play size={12} />
+          {t('attempts.rerun')}
+        </button>
+      </div>
+    </div>
+  );
+};
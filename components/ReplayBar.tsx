@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, SkipBack, Radio, X, History } from 'lucide-react';
+import { TreeStore, createTreeStore } from '../state/treeStore';
+import { ChunkLogEntry, ResearchTreeState } from '../state/researchTree';
+import { useChunkLogLength } from '../state/treeStoreContext';
+import { useI18n } from '../i18n/useI18n';
+import { REPLAY_SPEEDS, buildReplayTimeline, buildTreeAt, formatReplayTime, indexReplayRuns, positionAtTime, settleEndedRuns } from '../state/replay';
+
+interface Props {
+  /** The live session store whose chunk log is replayed. */
+  store: TreeStore;
+  /** Called with the store to display: the replay store while scrubbing, `null` to show the live tree. */
+  onStoreChange: (store: TreeStore | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * Timeline scrubber over the session's chunk log. Seeking rebuilds the tree from the log in a
+ * separate store, so a live run keeps streaming into the real one meanwhile.
+ * At the end of the log ("live") the real tree is shown again.
+ */
+const ReplayBar: React.FC<Props> = ({ store, onStoreChange, onClose }) => {
+  const { t } = useI18n();
+  const [replayStore] = useState(() => createTreeStore());
+  const logLength = useChunkLogLength(store);
+  // null follows the live tree; otherwise the number of chunks applied
+  const [position, setPosition] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const timeline = useMemo(() => buildReplayTimeline(store.getLog()), [store, logLength]);
+  // Every logged chunk's node is in the live tree by now, so runs only need re-indexing as the log grows
+  const runs = useMemo(() => indexReplayRuns(store.getLog(), store.getState()), [store, logLength]);
+  const appliedRef = useRef<{ log: readonly ChunkLogEntry[]; state: ResearchTreeState; position: number } | null>(null);
+  const clockRef = useRef(0);
+
+  const effectivePosition = position ?? logLength;
+
+  // Rebuild the replayed tree; moving forward only applies the chunks in between.
+  // Runs that were over by then are shown finished as in the live tree
+  useEffect(() => {
+    if (position === null) {
+      appliedRef.current = null;
+      onStoreChange(null);
+      return;
+    }
+    const log = store.getLog();
+    const applied = appliedRef.current;
+    const state = applied && applied.log === log && applied.position <= position
+      ? buildTreeAt(log, position, applied)
+      : buildTreeAt(log, position);
+    appliedRef.current = { log, state, position };
+    replayStore.reset(settleEndedRuns(state, store.getState(), runs, position));
+    onStoreChange(replayStore);
+  }, [position, store, runs, replayStore, onStoreChange]);
+
+  // Hand the view back to the live tree when the bar closes
+  useEffect(() => () => onStoreChange(null), [onStoreChange]);
+
+  // The log is replaced when another session is loaded; start over from the live view
+  useEffect(() => {
+    if (position !== null && position > logLength) {
+      appliedRef.current = null;
+      setPosition(null);
+      setIsPlaying(false);
+    }
+  }, [position, logLength]);
+
+  // Playback clock: advances at `speed` and maps the elapsed time to a log position
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      clockRef.current += (now - last) * speed;
+      last = now;
+      const next = positionAtTime(timeline, clockRef.current);
+      if (next >= logLength) {
+        setPosition(null);
+        setIsPlaying(false);
+        return;
+      }
+      setPosition(prev => (prev === next ? prev : next));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, timeline, logLength]);
+
+  const seek = (next: number) => {
+    clockRef.current = timeline[next] ?? 0;
+    setPosition(next >= logLength ? null : next);
+    if (next >= logLength) setIsPlaying(false);
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing from the end starts over
+    if (position === null) seek(0);
+    else clockRef.current = timeline[position];
+    setIsPlaying(true);
+  };
+
+  const cycleSpeed = () => {
+    setSpeed(current => REPLAY_SPEEDS[(REPLAY_SPEEDS.indexOf(current) + 1) % REPLAY_SPEEDS.length]);
+  };
+
+  const buttonClass = 'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center gap-2 md:gap-3 px-4 md:px-6 py-2 border-b border-white/5 bg-slate-900/60 backdrop-blur-sm text-xs shrink-0 z-20">
+      <History size={14} className="text-blue-400 shrink-0 hidden md:block" />
+      <button className={buttonClass} onClick={() => seek(0)} disabled={logLength === 0} title={t('replay.toStart')}>
+        <SkipBack size={14} />
+      </button>
+      <button className={buttonClass} onClick={togglePlay} disabled={logLength === 0} title={t(isPlaying ? 'replay.pause' : 'replay.play')}>
+        {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+      <button
+        className="w-10 py-1 rounded-md font-mono text-slate-300 hover:bg-slate-800 transition-colors"
+        onClick={cycleSpeed}
+        title={t('replay.speed')}
+      >
+        {speed}x
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={logLength}
+        step={1}
+        value={effectivePosition}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="flex-1 min-w-0 accent-blue-500 cursor-pointer"
+        aria-label={t('replay.progress')}
+      />
+
+      <span className="font-mono text-slate-500 whitespace-nowrap">
+        {formatReplayTime(timeline[effectivePosition] ?? 0)} / {formatReplayTime(timeline[logLength] ?? 0)}
+        <span className="hidden md:inline text-slate-600"> · {effectivePosition}/{logLength}</span>
+      </span>
+
+      <button
+        className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${position === null ? 'text-red-300 bg-red-500/10' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+        onClick={() => seek(logLength)}
+        title={t('replay.liveTitle')}
+      >
+        <Radio size={12} />
+        <span>{t('replay.live')}</span>
+      </button>
+      <button className={buttonClass} onClick={onClose} title={t('replay.close')}>
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default ReplayBar;
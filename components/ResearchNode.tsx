@@ -1,113 +1,215 @@
 import React, { useMemo, useState } from 'react';
-import { ResearchNode as NodeInterface, Role } from '../types';
+import { ResearchNode as ResearchNodeType, Role } from '../types';
+import { useTreeNode, useTreeNodeSelector, useTreeSelector, useTreeStore } from '../state/treeStoreContext';
+import { useFieldHighlight } from '../state/treeSearchContext';
+import { useFollowUp } from '../state/followUpContext';
+import { useRerun } from '../state/rerunContext';
+import { getDisplayedToolArgs } from '../state/treeSearch';
+import { getFinalReportContent, parseToolArgs } from '../utils/nodeContent';
 import { FinalReport } from './FinalReport';
+import HighlightedText from './HighlightedText';
+import { AttemptSwitcher, PromptEditor } from './PromptAttempts';
+import { BlockActions, ToolInputView, ToolOutputView, getToolRenderer } from './toolRenderers';
+import { toFileStem } from '../utils/download';
+import { formatDuration, getToolLatency } from '../state/runMetrics';
+import { MessageKey, formatDateTime } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
 import { 
   Bot, 
-  Search, 
   FileText, 
   CheckCircle2, 
   Loader2, 
   ChevronDown, 
   ChevronRight, 
-  Globe, 
   Cpu, 
   AlertCircle,
   ArrowRightLeft,
+  Ban,
+  MessageSquareReply,
+  CornerDownRight,
+  PauseCircle,
+  Pencil,
+  RefreshCw,
+  Timer,
   User
 } from 'lucide-react';
 
 interface Props {
   nodeId: string;
-  nodes: Map<string, NodeInterface>;
-  depth?: number;
   ancestorFinished?: boolean;
+  isCollapsed?: boolean;
+  onToggleCollapse?: (nodeId: string) => void;
+  // Children are rendered as the following rows, so the card stays open at the bottom
+  hasVisibleChildren?: boolean;
+  // Prompts: their run is over, so they can be edited & rerun or regenerated
+  isRunSettled?: boolean;
 }
 
-const ResearchNode: React.FC<Props> = ({ nodeId, nodes, depth = 0, ancestorFinished = false }) => {
-  const node = nodes.get(nodeId);
-  const [isCollapsed, setIsCollapsed] = useState(false);
-
-  // Parse tool arguments safely
-  const toolArgs = useMemo(() => {
-    if (node?.role === Role.TOOL_CALL && node.toolArgs) {
-      try {
-        return JSON.parse(node.toolArgs);
-      } catch (e) {
-        return null;
-      }
-    }
-    return null;
-  }, [node?.role, node?.toolArgs]);
+/**
+ * Visual styling based on role. Shared with the frames that continue a card's
+ * borders around its children rows.
+ */
+export const getRoleColors = (role: Role | undefined) => {
+  switch (role) {
+    case Role.ASSISTANT:
+      return { borderColor: 'border-purple-500/30', bgColor: 'bg-purple-900/10', textColor: 'text-purple-300' };
+    case Role.TOOL_CALL:
+      return { borderColor: 'border-orange-500/30', bgColor: 'bg-orange-900/10', textColor: 'text-slate-300' };
+    case Role.HUMAN:
+      return { borderColor: 'border-blue-500/30', bgColor: 'bg-blue-900/10', textColor: 'text-blue-300' };
+    case Role.ERROR:
+      return { borderColor: 'border-red-500/30', bgColor: 'bg-red-900/10', textColor: 'text-red-300' };
+    default:
+      return { borderColor: 'border-slate-700', bgColor: 'bg-slate-800/30', textColor: 'text-slate-300' };
+  }
+};
 
-  // Determine the content for the Final Report component
-  const finalReportContent = useMemo(() => {
-    if (!node?.isFinal) return null;
-    if (node.role === Role.HUMAN) return null;
-    
-    // 1. Priority: Direct content from the final message
-    if (node.content && node.content.trim().length > 0) {
-        return node.content;
-    }
-    
-    // 2. Fallback: 'report' field from complete_task tool args
-    if (node.role === Role.TOOL_CALL && node.name === 'complete_task' && toolArgs?.report) {
-        return toolArgs.report;
-    }
+/**
+ * Solid role colors for the graph and timeline views, in the same hues as the card borders.
+ */
+export const ROLE_FILLS: Record<Role, string> = {
+  [Role.ASSISTANT]: '#a855f7',
+  [Role.HUMAN]: '#3b82f6',
+  [Role.TOOL_CALL]: '#f97316',
+  [Role.TOOL]: '#22c55e',
+  [Role.SYSTEM]: '#94a3b8',
+  [Role.ERROR]: '#ef4444',
+};
+
+/** Catalog keys of the role names shown in card headers and the graph legend. */
+export const ROLE_LABEL_KEYS: Record<Role, MessageKey> = {
+  [Role.ASSISTANT]: 'node.role.assistant',
+  [Role.HUMAN]: 'node.role.human',
+  [Role.TOOL_CALL]: 'node.role.toolCall',
+  [Role.TOOL]: 'node.role.tool',
+  [Role.SYSTEM]: 'node.role.system',
+  [Role.ERROR]: 'node.role.error',
+};
+
+/**
+ * Duration badge for the card header: the tool latency for tool calls, otherwise first to last
+ * (or completing) chunk. The tooltip lists the individual times. Nothing for untimed (history) nodes.
+ */
+const NodeTiming: React.FC<{ node: ResearchNodeType; toolLatency?: number }> = ({ node, toolLatency }) => {
+  const { locale, t } = useI18n();
+  if (node.lastChunkAt === undefined) return null;
+
+  const end = node.completedAt ?? node.lastChunkAt;
+  const time = (value: number) => formatDateTime(locale, value, { timeStyle: 'medium' });
+  const lines = [
+    t('timing.firstChunk', { time: time(node.timestamp) }),
+    t('timing.lastChunk', { time: time(node.lastChunkAt) }),
+    node.completedAt !== undefined && t('timing.completed', { time: time(node.completedAt) }),
+    t('timing.chunks', { count: node.chunkCount || 0 }),
+    toolLatency !== undefined && t('timing.toolLatency', { duration: formatDuration(toolLatency) }),
+  ].filter(Boolean);
+
+  return (
+    <span className="flex items-center gap-1 text-[10px] font-mono text-slate-500" title={lines.join('\n')}>
+      <Timer size={10} />
+      {formatDuration(toolLatency ?? Math.max(0, end - node.timestamp))}
+    </span>
+  );
+};
+
+/**
+ * Chip on a follow-up prompt naming the node it refers to; reveals the node while it is in the tree
+ * (a fork's anchor stays behind in the original conversation).
+ */
+const AnchorReference: React.FC<{ anchor: NonNullable<ResearchNodeType['anchor']> }> = ({ anchor }) => {
+  const { t } = useI18n();
+  const store = useTreeStore();
+  const isInTree = useTreeSelector(state => state.nodes.has(anchor.nodeId));
 
-    return null;
-  }, [node?.isFinal, node?.content, node?.role, node?.name, toolArgs]);
+  return (
+    <button
+      onClick={(e) => { e.stopPropagation(); store.revealNode(anchor.nodeId); }}
+      disabled={!isInTree}
+      className="inline-flex items-center gap-1 max-w-full mt-1 mb-1.5 px-1.5 py-0.5 rounded bg-blue-500/10 border border-blue-500/20 text-[10px] text-blue-300/80 hover:text-blue-200 disabled:hover:text-blue-300/80"
+      title={isInTree ? t('followUp.locate') : undefined}
+    >
+      <CornerDownRight size={10} className="shrink-0" />
+      <span className="truncate">{t('followUp.reference', { label: anchor.label })}</span>
+    </button>
+  );
+};
+
+/**
+ * The card for a single node: header and the node's own content.
+ * Children and the final report are separate rows of the virtualized tree (see ResearchTree).
+ */
+const ResearchNode: React.FC<Props> = ({ nodeId, ancestorFinished = false, isCollapsed = false, onToggleCollapse, hasVisibleChildren = false, isRunSettled = false }) => {
+  const { t } = useI18n();
+  // Subscribes to this node only; untouched subtrees don't re-render while streaming
+  const node = useTreeNode(nodeId);
+
+  const toolArgs = useMemo(() => parseToolArgs(node), [node?.role, node?.toolArgs]);
+
+  const finalReportContent = useMemo(
+    () => getFinalReportContent(node, toolArgs),
+    [node?.isFinal, node?.content, node?.role, node?.name, toolArgs]
+  );
+
+  // If agent is streaming, check if it has finished a complete_task
+  // (re-evaluated when a child's status changes, without subscribing to every child)
+  const hasCompletedTask = useTreeNodeSelector(nodeId, (current, treeStore) => {
+    if (current?.role !== Role.ASSISTANT) return false;
+    return current.children.some(childId => {
+        const child = treeStore.getNode(childId);
+        return child?.role === Role.TOOL_CALL && 
+               child.name === 'complete_task' && 
+               child.status === 'completed';
+    });
+  });
 
   // Determine if the node should be visually treated as completed
-  const isEffectivelyDone = useMemo(() => {
-    if (ancestorFinished) return true;
-    if (!node) return false;
-    if (node.status === 'completed') return true;
-    
-    // If agent is streaming, check if it has finished a complete_task
-    if (node.role === Role.ASSISTANT) {
-        return node.children.some(childId => {
-            const child = nodes.get(childId);
-            return child?.role === Role.TOOL_CALL && 
-                   child.name === 'complete_task' && 
-                   child.status === 'completed';
-        });
-    }
-    return false;
-  }, [node, nodes, ancestorFinished]);
+  const isEffectivelyDone = ancestorFinished || node?.status === 'completed' || hasCompletedTask;
+
+  // Tool results on a separate `tool` node are rendered for the tool named by the parent call
+  const toolName = useTreeNodeSelector(nodeId, (current, treeStore) => {
+    if (current?.role !== Role.TOOL || !current.parentId) return current?.name;
+    const parent = treeStore.getNode(current.parentId);
+    return parent?.role === Role.TOOL_CALL ? parent.name : current.name;
+  });
+  const toolRenderer = getToolRenderer(toolName);
+
+  // Re-evaluated when the result child completes (child status changes notify the parent)
+  const toolLatency = useTreeNodeSelector(nodeId, (current, treeStore) =>
+    current ? getToolLatency(current, treeStore.getNode) : undefined
+  );
+
+  const followUp = useFollowUp();
+
+  // Edit & rerun / regenerate on prompts; the editor replaces the prompt text while open
+  const rerun = useRerun();
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Find-bar highlights (see FindBar)
+  const contentHighlight = useFieldHighlight(nodeId, 'content');
+  const displayedToolArgs = useMemo(() => (node ? getDisplayedToolArgs(node) : ''), [node?.role, node?.toolArgs]);
 
   if (!node) return null;
 
   const hasChildren = node.children.length > 0;
-  const isAgent = node.role === Role.ASSISTANT;
   const isToolCall = node.role === Role.TOOL_CALL;
   const isError = node.role === Role.ERROR;
   const isHuman = node.role === Role.HUMAN;
+  // Offered once the prompt's own run is over
+  const canRerun = isHuman && !!rerun && isRunSettled;
+  const showEditor = isEditing && canRerun;
+  // Stopped before it finished (a finished agent under a stopped run still reads as done)
+  const isCancelled = node.status === 'cancelled' && !isEffectivelyDone;
+  // Left unfinished by a run that can still be resumed (see the interrupted-run banner)
+  const isInterrupted = node.status === 'interrupted' && !isEffectivelyDone;
 
   // Visual styling based on role
-  let borderColor = 'border-slate-700';
-  let bgColor = 'bg-slate-800/30';
-  let textColor = 'text-slate-300';
-
-  if (isAgent) {
-      borderColor = 'border-purple-500/30';
-      bgColor = 'bg-purple-900/10';
-      textColor = 'text-purple-300';
-  } else if (isToolCall) {
-      borderColor = 'border-orange-500/30';
-      bgColor = 'bg-orange-900/10';
-  } else if (isHuman) {
-      borderColor = 'border-blue-500/30';
-      bgColor = 'bg-blue-900/10';
-      textColor = 'text-blue-300';
-  } else if (isError) {
-      borderColor = 'border-red-500/30';
-      bgColor = 'bg-red-900/10';
-      textColor = 'text-red-300';
-  }
+  const { borderColor, bgColor, textColor } = getRoleColors(node.role);
 
   const getIcon = () => {
     if (node.status === 'streaming' && !isEffectivelyDone) return <Loader2 className="w-4 h-4 animate-spin text-blue-400" />;
     if (isError || node.status === 'error') return <AlertCircle className="w-4 h-4 text-red-500" />;
+    if (isCancelled) return <Ban className="w-4 h-4 text-amber-500" />;
+    if (isInterrupted) return <PauseCircle className="w-4 h-4 text-orange-400" />;
     
     switch (node.role) {
       case Role.ASSISTANT:
@@ -115,10 +217,7 @@ const ResearchNode: React.FC<Props> = ({ nodeId, nodes, depth = 0, ancestorFinis
       case Role.HUMAN:
         return <User className="w-4 h-4 text-blue-400" />;
       case Role.TOOL_CALL:
-        if (node.name?.includes('search')) return <Search className="w-4 h-4 text-orange-400" />;
-        if (node.name?.includes('fetch')) return <Globe className="w-4 h-4 text-blue-400" />;
-        if (node.name === 'complete_task') return <CheckCircle2 className="w-4 h-4 text-green-400" />;
-        return <Cpu className="w-4 h-4 text-orange-400" />;
+        return toolRenderer?.icon || <Cpu className="w-4 h-4 text-orange-400" />;
       case Role.TOOL:
         return <FileText className="w-4 h-4 text-green-400" />;
       case Role.SYSTEM:
@@ -129,32 +228,24 @@ const ResearchNode: React.FC<Props> = ({ nodeId, nodes, depth = 0, ancestorFinis
   };
 
   const getRoleLabel = (role: Role) => {
-      switch(role) {
-          case Role.ASSISTANT: return '智能体';
-          case Role.HUMAN: return '用户';
-          case Role.TOOL_CALL: return '工具调用';
-          case Role.TOOL: return '工具结果';
-          case Role.SYSTEM: return '系统';
-          case Role.ERROR: return '错误';
-          default: return (role as string).replace('_', ' ');
-      }
+      const key = ROLE_LABEL_KEYS[role];
+      return key ? t(key) : (role as string).replace('_', ' ');
   };
 
-  const rawToolArgs = node.toolArgs || '';
-
   return (
-    <div className={`flex flex-col mb-2 animate-in fade-in slide-in-from-bottom-2 duration-300 ${isHuman ? 'items-end' : ''}`}>
+    <div className={`flex flex-col ${hasVisibleChildren ? '' : 'mb-2'} animate-in fade-in slide-in-from-bottom-2 duration-300 ${isHuman ? 'items-end' : ''}`}>
       <div 
         className={`
-          relative flex flex-col rounded-lg border ${borderColor} ${bgColor} 
+          relative flex flex-col border ${borderColor} ${bgColor} 
           transition-all duration-200 overflow-hidden
+          ${hasVisibleChildren ? 'rounded-t-lg border-b-0' : 'rounded-lg'}
           ${isHuman ? 'w-fit max-w-[85%] md:max-w-[70%]' : 'w-full'}
         `}
       >
         {/* Header - Click to collapse/expand */}
         <div 
-          className="flex items-center p-3 gap-3 cursor-pointer select-none bg-slate-900/20 hover:bg-slate-900/40 transition-colors"
-          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="group flex items-center p-3 gap-3 cursor-pointer select-none bg-slate-900/20 hover:bg-slate-900/40 transition-colors"
+          onClick={() => onToggleCollapse?.(nodeId)}
         >
           <div className="flex items-center justify-center w-6 h-6 rounded-md bg-slate-800 border border-slate-700">
             {getIcon()}
@@ -163,24 +254,63 @@ const ResearchNode: React.FC<Props> = ({ nodeId, nodes, depth = 0, ancestorFinis
           <div className="flex-1 flex flex-col min-w-0">
             <div className="flex items-center gap-2">
               <span className={`text-sm font-semibold truncate ${textColor}`}>
-                {isHuman ? '你' : (node.name || '未知智能体')}
+                {isHuman ? t('node.you') : (node.name || t('node.unknownAgent'))}
               </span>
               {!isHuman && (
                   <span className="text-xs text-slate-500 uppercase tracking-wider px-1.5 py-0.5 rounded bg-slate-900">
                     {getRoleLabel(node.role)}
                   </span>
               )}
+              {isCancelled && (
+                  <span className="text-xs text-amber-400 uppercase tracking-wider px-1.5 py-0.5 rounded bg-amber-500/10 border border-amber-500/20">
+                    {t('node.cancelled')}
+                  </span>
+              )}
+              {isInterrupted && (
+                  <span className="text-xs text-orange-300 uppercase tracking-wider px-1.5 py-0.5 rounded bg-orange-500/10 border border-orange-500/20">
+                    {t('node.interrupted')}
+                  </span>
+              )}
               {isEffectivelyDone && !isError && !isHuman && (
                 <CheckCircle2 className="w-3 h-3 text-green-500/50" />
               )}
+              <span className="ml-auto flex items-center gap-2 shrink-0">
+                {!isHuman && <NodeTiming node={node} toolLatency={toolLatency} />}
+                {isHuman && <AttemptSwitcher groupId={node.alternativeOf || nodeId} />}
+                {isHuman && canRerun && !showEditor && (
+                  <>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setIsEditing(true); }}
+                      className="p-1 -my-1 rounded text-slate-500 hover:text-blue-300 hover:bg-blue-500/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      title={t('attempts.edit')}
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); rerun?.(nodeId, node.content); }}
+                      className="p-1 -my-1 rounded text-slate-500 hover:text-blue-300 hover:bg-blue-500/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      title={t('attempts.regenerate')}
+                    >
+                      <RefreshCw size={12} />
+                    </button>
+                  </>
+                )}
+                {followUp && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); followUp(nodeId); }}
+                    className="p-1 -my-1 rounded text-slate-500 hover:text-blue-300 hover:bg-blue-500/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    title={t('followUp.action')}
+                  >
+                    <MessageSquareReply size={12} />
+                  </button>
+                )}
+              </span>
             </div>
           </div>
 
-          {hasChildren && (
-             <div className="text-slate-500 hover:text-slate-300">
-               {isCollapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
-             </div>
-          )}
+          <div className="text-slate-500 hover:text-slate-300">
+            {isCollapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+          </div>
         </div>
 
         {/* Content Body */}
@@ -191,12 +321,13 @@ const ResearchNode: React.FC<Props> = ({ nodeId, nodes, depth = 0, ancestorFinis
             <div className={`px-3 pb-3 ${hasChildren || isToolCall ? 'pl-[3.25rem]' : 'pl-3'}`}>
                 
                 {/* 1. Tool Arguments (Input) */}
-                {isToolCall && rawToolArgs && (
+                {isToolCall && displayedToolArgs && (
                 <div className="flex flex-col gap-1 mb-2 mt-1">
-                    <span className="text-[10px] uppercase text-slate-500 font-semibold tracking-wider">输入</span>
-                    <div className="bg-slate-950/50 rounded p-2 font-mono text-xs text-orange-200/80 overflow-x-auto border border-orange-500/10">
-                        <pre>{toolArgs ? JSON.stringify(toolArgs, null, 2) : rawToolArgs}</pre>
+                    <div className="flex items-center gap-2">
+                        <span className="text-[10px] uppercase text-slate-500 font-semibold tracking-wider">{t('node.input')}</span>
+                        <BlockActions text={displayedToolArgs} fileStem={`${toFileStem(toolName || 'tool')}-input`} className="ml-auto" />
                     </div>
+                    <ToolInputView node={node} args={toolArgs} renderer={toolRenderer} />
                 </div>
                 )}
 
@@ -204,12 +335,11 @@ const ResearchNode: React.FC<Props> = ({ nodeId, nodes, depth = 0, ancestorFinis
                 {node.toolResult && (
                 <div className="flex flex-col gap-1 mt-2 animate-in fade-in duration-500">
                     <div className="flex items-center gap-2">
-                        <span className="text-[10px] uppercase text-slate-500 font-semibold tracking-wider">输出</span>
+                        <span className="text-[10px] uppercase text-slate-500 font-semibold tracking-wider">{t('node.output')}</span>
                         <ArrowRightLeft size={10} className="text-slate-600"/>
+                        <BlockActions text={node.toolResult} fileStem={`${toFileStem(toolName || 'tool')}-output`} className="ml-auto" />
                     </div>
-                    <div className="bg-slate-900/50 rounded p-2 font-mono text-xs text-green-200/70 border border-green-500/10 whitespace-pre-wrap max-h-60 overflow-y-auto custom-scrollbar">
-                        {node.toolResult}
-                    </div>
+                    <ToolOutputView node={node} args={toolArgs} result={node.toolResult} renderer={toolRenderer} />
                 </div>
                 )}
 
@@ -218,9 +348,17 @@ const ResearchNode: React.FC<Props> = ({ nodeId, nodes, depth = 0, ancestorFinis
                    If the content is exactly the same as the final report being shown below, 
                    we hide it here to avoid duplication.
                 */}
-                {(!isToolCall) && node.content && (finalReportContent !== node.content) && (
+                {isHuman && node.anchor && <AnchorReference anchor={node.anchor} />}
+                {showEditor && (
+                  <PromptEditor
+                    initialText={node.content}
+                    onSubmit={(text) => { setIsEditing(false); rerun?.(nodeId, text); }}
+                    onCancel={() => setIsEditing(false)}
+                  />
+                )}
+                {(!isToolCall) && !showEditor && node.content && (finalReportContent !== node.content) && (
                 <div className={`whitespace-pre-wrap leading-relaxed opacity-90 font-mono text-xs md:text-sm mt-1 ${isError ? 'text-red-400' : ''}`}>
-                    {node.content}
+                    <HighlightedText text={node.content} {...contentHighlight} />
                 </div>
                 )}
 
@@ -229,36 +367,37 @@ const ResearchNode: React.FC<Props> = ({ nodeId, nodes, depth = 0, ancestorFinis
                   <div className="mt-2 flex items-center gap-2 text-xs text-slate-600">
                      <Loader2 className="w-3 h-3 animate-spin" />
                      <span className="italic">
-                        {isToolCall ? '正在执行工具...' : '思考中...'}
+                        {t(isToolCall ? 'node.runningTool' : 'node.thinking')}
                      </span>
                   </div>
                 )}
             </div>
 
-            {/* 5. Children (Nested Items) */}
-            {hasChildren && (
-                <div className="mt-1 border-t border-slate-700/50 bg-slate-900/20 p-2 pl-4 md:pl-6 rounded-b-lg">
-                    {node.children.map(childId => (
-                        <ResearchNode 
-                        key={childId} 
-                        nodeId={childId} 
-                        nodes={nodes} 
-                        depth={depth + 1} 
-                        ancestorFinished={isEffectivelyDone}
-                        />
-                    ))}
-                </div>
+            {/* 5. Children follow as separate rows inside this card's frame */}
+            {hasVisibleChildren && (
+                <div className="mt-1 border-t border-slate-700/50" />
             )}
           </div>
         )}
       </div>
-
-      {/* Final Report Component */}
-      {finalReportContent && (
-         <FinalReport report={finalReportContent} />
-      )}
     </div>
   );
 };
 
+/**
+ * The Final Research Report shown after a final node (and its children).
+ */
+export const NodeFinalReport: React.FC<{ nodeId: string }> = React.memo(({ nodeId }) => {
+  const node = useTreeNode(nodeId);
+  const toolArgs = useMemo(() => parseToolArgs(node), [node?.role, node?.toolArgs]);
+  const finalReportContent = useMemo(
+    () => getFinalReportContent(node, toolArgs),
+    [node?.isFinal, node?.content, node?.role, node?.name, toolArgs]
+  );
+
+  if (!finalReportContent) return null;
+
+  return <FinalReport report={finalReportContent} nodeId={nodeId} />;
+});
+
 export default React.memo(ResearchNode);
\ No newline at end of file
@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Unlink } from 'lucide-react';
+import { TreeRow, TreeRowFrame, UNATTACHED_GROUP_ID, flattenVisibleTree } from '../state/flattenTree';
+import { useTreeSelector, useTreeStore } from '../state/treeStoreContext';
+import ResearchNode, { NodeFinalReport, getRoleColors } from './ResearchNode';
+import VirtualList, { VirtualListHandle } from './VirtualList';
+import { useI18n } from '../i18n/useI18n';
+
+interface Props {
+  scrollRef: React.RefObject<HTMLElement | null>;
+  /** Called when rendered row heights change (used to keep auto-scroll stuck to the bottom). */
+  onLayoutChange?: () => void;
+}
+
+// How long a revealed node stays highlighted
+const REVEAL_HIGHLIGHT_MS = 2000;
+
+// Rough heights for rows that haven't been measured yet
+const estimateRowHeight = (row: TreeRow) => {
+  if (row.kind === 'report') return 240;
+  if (row.kind === 'unattached') return 44;
+  return 72;
+};
+
+/**
+ * Continues an ancestor card's side borders (and the inner "children" area) around a row,
+ * closing the card at the bottom on its last row.
+ */
+const Frame: React.FC<{ frame: TreeRowFrame; children: React.ReactNode }> = ({ frame, children }) => {
+  const store = useTreeStore();
+  const isGroup = frame.nodeId === UNATTACHED_GROUP_ID;
+  const { borderColor, bgColor } = isGroup
+    ? { borderColor: 'border-dashed border-slate-600/60', bgColor: 'bg-slate-900/30' }
+    : getRoleColors(store.getNode(frame.nodeId)?.role);
+
+  return (
+    <div className={`border-x ${borderColor} ${bgColor} ${frame.closes ? 'border-b rounded-b-lg mb-2' : ''}`}>
+      <div className={`bg-slate-900/20 pl-4 md:pl-6 pr-2 ${frame.closes ? 'pb-2 rounded-b-lg' : ''}`}>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+const UnattachedHeader: React.FC<{ count: number }> = ({ count }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-2 px-3 pt-3 pb-2 rounded-t-lg border border-b-0 border-dashed border-slate-600/60 bg-slate-900/30 text-xs text-slate-400">
+      <Unlink size={14} className="text-slate-500" />
+      <span className="font-semibold">{t('tree.unattached')}</span>
+      <span className="text-slate-600">{t('tree.unattachedHint', { count })}</span>
+    </div>
+  );
+};
+
+/**
+ * Renders the research tree as a windowed list of rows: the visible (expanded) tree is
+ * flattened and only rows on screen are mounted, while frames keep the nested-card look.
+ */
+const ResearchTree: React.FC<Props> = ({ scrollRef, onLayoutChange }) => {
+  const store = useTreeStore();
+  const state = useTreeSelector(current => current);
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(() => new Set());
+
+  const rows = useMemo(() => flattenVisibleTree(state, collapsed), [state, collapsed]);
+
+  const listRef = useRef<VirtualListHandle>(null);
+  const [pendingReveal, setPendingReveal] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  // Reveal requests (report references, find bar): expand the node and its collapsed ancestors,
+  // then scroll once the row exists
+  useEffect(() => store.onReveal((nodeId) => {
+    const toExpand: string[] = [nodeId];
+    let current = store.getNode(nodeId);
+    while (current?.parentId) {
+      toExpand.push(current.parentId);
+      current = store.getNode(current.parentId);
+    }
+    setCollapsed(prev => toExpand.some(id => prev.has(id)) ? new Set([...prev].filter(id => !toExpand.includes(id))) : prev);
+    setPendingReveal(nodeId);
+  }), [store]);
+
+  useEffect(() => {
+    if (!pendingReveal || !rows.some(row => row.key === pendingReveal)) return;
+    // Center the current find match when the node has one
+    listRef.current?.scrollToKey(pendingReveal, '[data-find-active]');
+    setHighlightedId(pendingReveal);
+    setPendingReveal(null);
+  }, [pendingReveal, rows]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), REVEAL_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  // Any card collapses to its header; child rows are skipped only for nodes that have children
+  const toggleCollapse = useCallback((nodeId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) next.delete(nodeId);
+      else next.add(nodeId);
+      return next;
+    });
+  }, []);
+
+  const renderRow = useCallback((row: TreeRow) => {
+    let content: React.ReactNode;
+    if (row.kind === 'unattached') {
+      content = <UnattachedHeader count={state.unattachedIds.length} />;
+    } else if (row.kind === 'report') {
+      content = <NodeFinalReport nodeId={row.nodeId} />;
+    } else {
+      content = (
+        <ResearchNode
+          nodeId={row.nodeId}
+          ancestorFinished={row.ancestorFinished}
+          isCollapsed={collapsed.has(row.nodeId)}
+          onToggleCollapse={toggleCollapse}
+          hasVisibleChildren={row.hasVisibleChildren}
+          isRunSettled={row.isRunSettled}
+        />
+      );
+    }
+
+    const framed = row.frames.reduceRight<React.ReactNode>(
+      (inner, frame) => <Frame frame={frame}>{inner}</Frame>,
+      content
+    );
+
+    const isHighlighted = row.kind === 'node' && row.nodeId === highlightedId;
+
+    return (
+      <div className={row.isTopLevel ? 'pt-2' : ''}>
+        <div className={isHighlighted ? 'rounded-lg ring-2 ring-amber-400/60 ring-offset-2 ring-offset-background transition-shadow' : ''}>
+          {framed}
+        </div>
+      </div>
+    );
+  }, [state.unattachedIds.length, collapsed, toggleCollapse, highlightedId]);
+
+  return (
+    <VirtualList
+      items={rows}
+      scrollRef={scrollRef}
+      renderItem={renderRow}
+      estimateHeight={estimateRowHeight}
+      onLayoutChange={onLayoutChange}
+      handleRef={listRef}
+    />
+  );
+};
+
+export default ResearchTree;
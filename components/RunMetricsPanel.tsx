@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Gauge, Loader2, X } from 'lucide-react';
+import { TreeStore } from '../state/treeStore';
+import { useChunkLogLength, useTreeSelector, useTreeStore } from '../state/treeStoreContext';
+import { computeRunMetrics, formatDuration } from '../state/runMetrics';
+import { formatNumber } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+interface Props {
+  /** The live session store; the summary covers the whole run, also while a replay is shown. */
+  store: TreeStore;
+  onClose: () => void;
+}
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="px-3 py-2 rounded-lg bg-slate-950/40 border border-slate-800">
+    <div className="text-[10px] uppercase tracking-wider text-slate-500">{label}</div>
+    <div className="text-sm font-mono text-slate-200">{value}</div>
+    {hint && <div className="text-[10px] font-mono text-slate-500">{hint}</div>}
+  </div>
+);
+
+/**
+ * Run summary: wall time, chunk throughput, tool latency per tool (p50/p95) and the slowest
+ * sub-agent branches. Recomputed as chunks arrive; clicking a branch reveals it.
+ */
+const RunMetricsPanel: React.FC<Props> = ({ store, onClose }) => {
+  const { locale, t } = useI18n();
+  // The displayed store (live or replay) handles reveal requests
+  const viewStore = useTreeStore();
+  const state = useTreeSelector(current => current, store);
+  const logLength = useChunkLogLength(store);
+  const metrics = useMemo(() => computeRunMetrics(state, store.getLog()), [state, store, logLength]);
+
+  const timed = (ms: number) => (metrics.hasTiming ? formatDuration(ms) : '—');
+  const rate = (value: number | null, unit: 'chunks' | 'chars') =>
+    value === null ? '—' : t(unit === 'chunks' ? 'metrics.chunksPerSecond' : 'metrics.charsPerSecond', { value: value.toFixed(1) });
+
+  return (
+    <div className="px-4 md:px-6 py-3 border-b border-white/5 bg-slate-900/60 backdrop-blur-sm text-xs shrink-0 z-20 max-h-[45vh] overflow-y-auto custom-scrollbar">
+      <div className="flex items-center gap-2 mb-2">
+        <Gauge size={14} className="text-blue-400" />
+        <span className="font-semibold text-slate-300">{t('metrics.title')}</span>
+        {!metrics.hasTiming && metrics.nodeCount > 0 && (
+          <span className="text-slate-500">{t('metrics.noTiming')}</span>
+        )}
+        <button
+          className="ml-auto p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+          onClick={onClose}
+          title={t('metrics.close')}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <Stat label={t('metrics.wallTime')} value={timed(metrics.wallTimeMs)} />
+        <Stat
+          label={t('metrics.nodes')}
+          value={formatNumber(locale, metrics.nodeCount)}
+          hint={t('metrics.toolCalls', { count: formatNumber(locale, metrics.toolCallCount) })}
+        />
+        <Stat
+          label={t('metrics.chunks')}
+          value={formatNumber(locale, metrics.chunkCount)}
+          hint={t('metrics.characters', { count: formatNumber(locale, metrics.charCount) })}
+        />
+        <Stat
+          label={t('metrics.throughput')}
+          value={rate(metrics.chunksPerSecond, 'chunks')}
+          hint={rate(metrics.charsPerSecond, 'chars')}
+        />
+      </div>
+
+      {metrics.hasTiming && (
+        <div className="grid md:grid-cols-2 gap-3 mt-3">
+          <div>
+            <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">{t('metrics.toolLatency')}</div>
+            {metrics.toolLatencies.length === 0 ? (
+              <div className="text-slate-600 italic">{t('metrics.none')}</div>
+            ) : (
+              <table className="w-full font-mono">
+                <thead>
+                  <tr className="text-slate-500 text-left">
+                    <th className="font-normal py-0.5">{t('metrics.tool')}</th>
+                    <th className="font-normal text-right">{t('metrics.calls')}</th>
+                    <th className="font-normal text-right">p50</th>
+                    <th className="font-normal text-right">p95</th>
+                    <th className="font-normal text-right">{t('metrics.max')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.toolLatencies.map(row => (
+                    <tr key={row.toolName} className="text-slate-300 border-t border-slate-800/60">
+                      <td className="py-0.5 pr-2 truncate max-w-[10rem]" title={row.toolName}>{row.toolName}</td>
+                      <td className="text-right text-slate-500">{row.count}</td>
+                      <td className="text-right">{formatDuration(row.p50)}</td>
+                      <td className="text-right">{formatDuration(row.p95)}</td>
+                      <td className="text-right text-slate-500">{formatDuration(row.max)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">{t('metrics.slowestBranches')}</div>
+            {metrics.slowestBranches.length === 0 ? (
+              <div className="text-slate-600 italic">{t('metrics.none')}</div>
+            ) : (
+              <ul className="space-y-0.5">
+                {metrics.slowestBranches.map(branch => (
+                  <li key={branch.nodeId}>
+                    <button
+                      className="w-full flex items-center gap-2 px-1.5 py-0.5 rounded hover:bg-slate-800 text-left transition-colors"
+                      onClick={() => viewStore.revealNode(branch.nodeId)}
+                      title={t('metrics.revealBranch')}
+                    >
+                      {branch.isRunning && <Loader2 size={10} className="animate-spin text-blue-400 shrink-0" />}
+                      <span className="flex-1 min-w-0 truncate text-purple-300">{branch.name}</span>
+                      <span className="font-mono text-slate-400">{formatDuration(branch.durationMs)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunMetricsPanel;
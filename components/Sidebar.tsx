@@ -1,7 +1,15 @@
-import React, { useEffect, useState } from 'react';
-import { ConversionVO, PaginationResponse } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ConversionVO, HistoryFilter } from '../types';
 import { fetchHistory, deleteConversation, updateConversation } from '../services/api';
-import { MessageSquare, Trash2, Clock, Loader2, Plus, ChevronLeft, Edit2, Check, X } from 'lucide-react';
+import { HistoryGroupKey, groupConversationsByDate, isFilterActive, matchesHistoryFilter } from '../utils/historyFilter';
+import HighlightedText from './HighlightedText';
+import { authStore } from '../services/auth';
+import { ForkOrigin, loadForkOrigins } from '../services/forks';
+import { RunStatus, loadRunStatuses } from '../services/interruptedRuns';
+import { useAuth } from '../state/useAuth';
+import { MessageKey, formatDateTime } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+import { Trash2, Clock, Loader2, Plus, ChevronLeft, Edit2, Check, X, Search, CalendarRange, LogOut, UserCircle2, GitBranch, PauseCircle, Ban } from 'lucide-react';
 
 interface Props {
   activeId: string | null;
@@ -12,11 +20,91 @@ interface Props {
   refreshKey?: number;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+// Start loading the next page this far before the end of the list is visible
+const LOAD_MORE_MARGIN_PX = 200;
+
+const GROUP_LABELS: Record<HistoryGroupKey, MessageKey> = {
+  today: 'sidebar.group.today',
+  yesterday: 'sidebar.group.yesterday',
+  previous7Days: 'sidebar.group.previous7Days',
+  older: 'sidebar.group.older',
+};
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+};
+
+/**
+ * "Branched from …" line of a forked conversation; selects the conversation it branched from.
+ */
+const ForkOriginLink: React.FC<{
+  origin?: ForkOrigin;
+  getTitle: (uuid: string) => string | undefined;
+  onSelect: (uuid: string) => void;
+}> = ({ origin, getTitle, onSelect }) => {
+  const { t } = useI18n();
+  if (!origin) return null;
+  const parentTitle = getTitle(origin.conversionUuid);
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelect(origin.conversionUuid);
+      }}
+      className="flex items-center gap-1 max-w-full mb-1 text-[10px] text-slate-500 hover:text-blue-300"
+      title={origin.nodeLabel ? t('sidebar.forkedFromNode', { node: origin.nodeLabel }) : undefined}
+    >
+      <GitBranch size={10} className="shrink-0" />
+      <span className="truncate">
+        {parentTitle ? t('sidebar.forkedFrom', { title: parentTitle }) : t('sidebar.forkedFromUnknown')}
+      </span>
+    </button>
+  );
+};
+
+/**
+ * Badge for a conversation whose latest run didn't finish.
+ */
+const RunStatusBadge: React.FC<{ status?: RunStatus }> = ({ status }) => {
+  const { t } = useI18n();
+  if (!status) return null;
+  const isInterrupted = status === 'interrupted';
+  return (
+    <span
+      className={`flex items-center gap-1 px-1.5 py-px rounded border text-[10px] ${isInterrupted ? 'border-amber-500/30 bg-amber-500/10 text-amber-300' : 'border-slate-600 bg-slate-800 text-slate-400'}`}
+      title={t(isInterrupted ? 'sidebar.status.interruptedTitle' : 'sidebar.status.cancelledTitle')}
+    >
+      {isInterrupted ? <PauseCircle size={10} /> : <Ban size={10} />}
+      {t(isInterrupted ? 'sidebar.status.interrupted' : 'sidebar.status.cancelled')}
+    </span>
+  );
+};
+
 const Sidebar: React.FC<Props> = ({ activeId, onSelect, onNewChat, isOpen, onClose, refreshKey = 0 }) => {
+  const { session } = useAuth();
+  const { locale, t } = useI18n();
+  const userId = session?.userId;
   const [conversations, setConversations] = useState<ConversionVO[]>([]);
   const [loading, setLoading] = useState(false);
   const [page, setPage] = useState(1);
   const [hasNext, setHasNext] = useState(false);
+
+  // Search & date filter (inputs are applied after a short debounce)
+  const [keywordInput, setKeywordInput] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [showDateFilter, setShowDateFilter] = useState(false);
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  // Only the latest request may update the list
+  const requestIdRef = useRef(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const lastFilterRef = useRef<HistoryFilter | null>(null);
   
   // Renaming state
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -24,28 +112,109 @@ const Sidebar: React.FC<Props> = ({ activeId, onSelect, onNewChat, isOpen, onClo
   const [isSaving, setIsSaving] = useState(false);
 
   const loadData = async (pageNum: number, append: boolean = false) => {
+    const requestId = ++requestIdRef.current;
     try {
       setLoading(true);
-      const data = await fetchHistory(pageNum);
+      const data = await fetchHistory(pageNum, undefined, filter);
+      if (requestId !== requestIdRef.current) return;
       setConversations(prev => append ? [...prev, ...data.items] : data.items);
       setHasNext(data.has_next);
       setPage(data.page_num);
     } catch (err) {
       console.error('Failed to load history', err);
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) setLoading(false);
     }
   };
 
   useEffect(() => {
-    if (isOpen) {
+    const timer = setTimeout(() => {
+      const next: HistoryFilter = { keyword: keywordInput.trim() || undefined, startDate: startDate || undefined, endDate: endDate || undefined };
+      setFilter(prev => (prev.keyword === next.keyword && prev.startDate === next.startDate && prev.endDate === next.endDate ? prev : next));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [keywordInput, startDate, endDate]);
+
+  /**
+   * Re-fetches the first page and merges it into the loaded list (new and updated conversations),
+   * keeping the pages already loaded so the list and its scroll position stay put.
+   */
+  const refreshFirstPage = async () => {
+    const requestId = ++requestIdRef.current;
+    try {
+      const data = await fetchHistory(1, undefined, filter);
+      if (requestId !== requestIdRef.current) return;
+      const fresh = new Set(data.items.map(c => c.conversion_uuid));
+      setConversations(prev => [...data.items, ...prev.filter(c => !fresh.has(c.conversion_uuid))]);
+      if (page <= 1) setHasNext(data.has_next);
+    } catch (err) {
+      console.error('Failed to refresh history', err);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // A new filter starts over from the top; refreshes (incl. after re-authentication) merge into what's loaded
+    const isNewFilter = lastFilterRef.current !== filter;
+    lastFilterRef.current = filter;
+    if (isNewFilter || conversations.length === 0) {
+        listRef.current?.scrollTo({ top: 0 });
         loadData(1);
+    } else {
+        refreshFirstPage();
     }
-  }, [isOpen, refreshKey]);
+  }, [isOpen, refreshKey, filter, session?.token]);
+
+  // Infinite scroll: load the next page when the end of the list comes near
+  useEffect(() => {
+    const root = listRef.current;
+    const sentinel = sentinelRef.current;
+    if (!root || !sentinel || !hasNext || loading) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadData(page + 1, true);
+    }, { root, rootMargin: `0px 0px ${LOAD_MORE_MARGIN_PX}px 0px` });
+    // Observing reports the current state right away, so a short list keeps loading until it fills up
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNext, loading, page, filter]);
+
+  // Backends that ignore the filter parameters return everything; filter what's loaded as well.
+  // Conversations of other users never show up, even if the backend returns them.
+  const visibleConversations = useMemo(
+    () => conversations.filter(conv =>
+      (!conv.user_id || conv.user_id === userId) && (!isFilterActive(filter) || matchesHistoryFilter(conv, filter))
+    ),
+    [conversations, filter, userId]
+  );
+
+  const groups = useMemo(() => groupConversationsByDate(visibleConversations), [visibleConversations]);
+
+  // Fork origins: from the backend when it tracks them, otherwise as recorded by this browser
+  const storedForkOrigins = useMemo(loadForkOrigins, [refreshKey]);
+  const getForkOrigin = (conv: ConversionVO): ForkOrigin | undefined =>
+    conv.forked_from
+      ? { conversionUuid: conv.forked_from, nodeId: conv.forked_from_node_id || undefined, createdAt: 0 }
+      : storedForkOrigins[conv.conversion_uuid];
+  // The backend's status of the latest run when it reports one, otherwise the last one seen here
+  const storedRunStatuses = useMemo(loadRunStatuses, [refreshKey]);
+  const getRunStatus = (conv: ConversionVO): RunStatus | undefined => {
+    if (conv.thread_status === undefined || conv.thread_status === null) return storedRunStatuses[conv.conversion_uuid];
+    if (conv.cancelled) return 'cancelled';
+    return conv.thread_status === false ? 'interrupted' : undefined;
+  };
+  const getTitle = (uuid: string) => conversations.find(c => c.conversion_uuid === uuid)?.title;
+
+  const clearFilters = () => {
+    setKeywordInput('');
+    setStartDate('');
+    setEndDate('');
+  };
 
   const handleDelete = async (e: React.MouseEvent, uuid: string) => {
     e.stopPropagation();
-    if (!window.confirm('确认删除此对话？')) return;
+    if (!window.confirm(t('sidebar.confirmDelete'))) return;
     
     try {
       await deleteConversation(uuid);
@@ -85,20 +254,14 @@ const Sidebar: React.FC<Props> = ({ activeId, onSelect, onNewChat, isOpen, onClo
           setEditingId(null);
       } catch (err) {
           console.error('Failed to update title', err);
-          alert('重命名对话失败');
+          alert(t('sidebar.renameFailed'));
       } finally {
           setIsSaving(false);
       }
   };
 
-  const formatDate = (dateStr: string) => {
-    try {
-      const d = new Date(dateStr);
-      return d.toLocaleDateString() + ' ' + d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    } catch (e) {
-      return dateStr;
-    }
-  };
+  // Date and time in the UI language's conventions (e.g. "03/14/2025, 09:30 AM" / "2025/03/14 09:30")
+  const formatDate = (dateStr: string) => formatDateTime(locale, dateStr, DATE_FORMAT) || dateStr;
 
   return (
     <>
@@ -122,7 +285,7 @@ const Sidebar: React.FC<Props> = ({ activeId, onSelect, onNewChat, isOpen, onClo
             <div className="p-4 border-b border-white/5 flex items-center justify-between shrink-0">
                 <div className="font-bold text-slate-200 flex items-center gap-2">
                     <Clock size={18} className="text-blue-400"/>
-                    <span>历史记录</span>
+                    <span>{t('sidebar.title')}</span>
                 </div>
                 <button onClick={onClose} className="md:hidden text-slate-400 p-1">
                     <ChevronLeft />
@@ -139,92 +302,175 @@ const Sidebar: React.FC<Props> = ({ activeId, onSelect, onNewChat, isOpen, onClo
                     className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white p-3 rounded-lg transition-colors font-medium text-sm shadow-lg shadow-blue-900/20"
                 >
                     <Plus size={18} />
-                    <span>新建研究</span>
+                    <span>{t('sidebar.newChat')}</span>
                 </button>
             </div>
 
-            {/* List */}
-            <div className="flex-1 overflow-y-auto px-2 pb-4 scrollbar-thin">
-                {conversations.length === 0 && !loading && (
-                    <div className="text-center text-slate-500 mt-10 text-sm p-4">
-                        暂无历史记录。
+            {/* Search & Filter */}
+            <div className="px-4 pb-3 shrink-0 space-y-2">
+                <div className="flex items-center gap-1">
+                    <div className="relative flex-1">
+                        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+                        <input
+                            type="text"
+                            value={keywordInput}
+                            onChange={(e) => setKeywordInput(e.target.value)}
+                            placeholder={t('sidebar.search')}
+                            className="w-full bg-slate-950/60 border border-slate-700/50 rounded-lg pl-8 pr-7 py-1.5 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500/50"
+                        />
+                        {keywordInput && (
+                            <button
+                                onClick={() => setKeywordInput('')}
+                                className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 text-slate-500 hover:text-slate-300"
+                            >
+                                <X size={12} />
+                            </button>
+                        )}
+                    </div>
+                    <button
+                        onClick={() => setShowDateFilter(!showDateFilter)}
+                        className={`p-1.5 rounded-lg border transition-colors ${
+                            showDateFilter || startDate || endDate
+                                ? 'border-blue-500/40 text-blue-300 bg-blue-500/10'
+                                : 'border-slate-700/50 text-slate-500 hover:text-slate-300'
+                        }`}
+                        title={t('sidebar.dateFilter')}
+                    >
+                        <CalendarRange size={14} />
+                    </button>
+                </div>
+                {showDateFilter && (
+                    <div className="flex items-center gap-1 text-[10px] text-slate-500">
+                        <input
+                            type="date"
+                            value={startDate}
+                            max={endDate || undefined}
+                            onChange={(e) => setStartDate(e.target.value)}
+                            className="flex-1 min-w-0 bg-slate-950/60 border border-slate-700/50 rounded px-1.5 py-1 text-slate-300 [color-scheme:dark] focus:outline-none focus:border-blue-500/50"
+                        />
+                        <span>{t('sidebar.dateTo')}</span>
+                        <input
+                            type="date"
+                            value={endDate}
+                            min={startDate || undefined}
+                            onChange={(e) => setEndDate(e.target.value)}
+                            className="flex-1 min-w-0 bg-slate-950/60 border border-slate-700/50 rounded px-1.5 py-1 text-slate-300 [color-scheme:dark] focus:outline-none focus:border-blue-500/50"
+                        />
                     </div>
                 )}
+            </div>
 
-                <div className="space-y-1">
-                    {conversations.map(conv => (
-                        <div 
-                            key={conv.conversion_uuid}
-                            onClick={() => {
-                                if (editingId !== conv.conversion_uuid) {
-                                    onSelect(conv.conversion_uuid);
-                                    if (window.innerWidth < 768) onClose();
-                                }
-                            }}
-                            className={`
-                                group relative p-3 rounded-lg cursor-pointer transition-all border border-transparent
-                                ${activeId === conv.conversion_uuid 
-                                    ? 'bg-blue-500/10 border-blue-500/20 text-blue-100' 
-                                    : 'hover:bg-slate-800 text-slate-300 hover:border-slate-700/50'
-                                }
-                            `}
-                        >
-                            {editingId === conv.conversion_uuid ? (
-                                <form onSubmit={saveTitle} className="flex items-center gap-1" onClick={e => e.stopPropagation()}>
-                                    <input
-                                        type="text"
-                                        autoFocus
-                                        value={editTitle}
-                                        onChange={(e) => setEditTitle(e.target.value)}
-                                        onKeyDown={(e) => {
-                                            if(e.key === 'Escape') cancelEditing();
+            {/* List */}
+            <div ref={listRef} className="flex-1 overflow-y-auto px-2 pb-4 scrollbar-thin">
+                {visibleConversations.length === 0 && !loading && (
+                    isFilterActive(filter) ? (
+                        <div className="text-center text-slate-500 mt-10 text-sm p-4">
+                            {t('sidebar.noMatches')}
+                            <button onClick={clearFilters} className="block mx-auto mt-2 text-xs text-blue-400 hover:text-blue-300">
+                                {t('sidebar.clearFilters')}
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="text-center text-slate-500 mt-10 text-sm p-4">
+                            {t('sidebar.empty')}
+                        </div>
+                    )
+                )}
+
+                <div className="space-y-4">
+                    {groups.map(group => (
+                        <div key={group.key}>
+                            <div className="sticky top-0 z-10 px-3 py-1.5 bg-slate-900 text-[10px] uppercase tracking-wider font-semibold text-slate-500">
+                                {t(GROUP_LABELS[group.key])}
+                            </div>
+                            <div className="space-y-1">
+                                {group.items.map(conv => (
+                                    <div 
+                                        key={conv.conversion_uuid}
+                                        onClick={() => {
+                                            if (editingId !== conv.conversion_uuid) {
+                                                onSelect(conv.conversion_uuid);
+                                                if (window.innerWidth < 768) onClose();
+                                            }
                                         }}
-                                        className="w-full bg-slate-950 border border-blue-500/50 rounded px-2 py-1 text-xs text-white focus:outline-none"
-                                    />
-                                    <button 
-                                        type="submit" 
-                                        className="p-1 text-green-400 hover:bg-green-400/10 rounded"
-                                        disabled={isSaving}
-                                    >
-                                        <Check size={14} />
-                                    </button>
-                                    <button 
-                                        type="button" 
-                                        onClick={cancelEditing} 
-                                        className="p-1 text-red-400 hover:bg-red-400/10 rounded"
+                                        className={`
+                                            group relative p-3 rounded-lg cursor-pointer transition-all border border-transparent
+                                            ${activeId === conv.conversion_uuid 
+                                                ? 'bg-blue-500/10 border-blue-500/20 text-blue-100' 
+                                                : 'hover:bg-slate-800 text-slate-300 hover:border-slate-700/50'
+                                            }
+                                        `}
                                     >
-                                        <X size={14} />
-                                    </button>
-                                </form>
-                            ) : (
-                                <>
-                                    <div className="pr-12">
-                                        <div className="font-medium text-sm truncate mb-1" title={conv.title}>
-                                            {conv.title || '未命名研究'}
-                                        </div>
-                                        <div className="text-[10px] opacity-60 font-mono">
-                                            {formatDate(conv.create_time)}
-                                        </div>
-                                    </div>
+                                        {editingId === conv.conversion_uuid ? (
+                                            <form onSubmit={saveTitle} className="flex items-center gap-1" onClick={e => e.stopPropagation()}>
+                                                <input
+                                                    type="text"
+                                                    autoFocus
+                                                    value={editTitle}
+                                                    onChange={(e) => setEditTitle(e.target.value)}
+                                                    onKeyDown={(e) => {
+                                                        if(e.key === 'Escape') cancelEditing();
+                                                    }}
+                                                    className="w-full bg-slate-950 border border-blue-500/50 rounded px-2 py-1 text-xs text-white focus:outline-none"
+                                                />
+                                                <button 
+                                                    type="submit" 
+                                                    className="p-1 text-green-400 hover:bg-green-400/10 rounded"
+                                                    disabled={isSaving}
+                                                >
+                                                    <Check size={14} />
+                                                </button>
+                                                <button 
+                                                    type="button" 
+                                                    onClick={cancelEditing} 
+                                                    className="p-1 text-red-400 hover:bg-red-400/10 rounded"
+                                                >
+                                                    <X size={14} />
+                                                </button>
+                                            </form>
+                                        ) : (
+                                            <>
+                                                <div className="pr-12">
+                                                    <div className="font-medium text-sm truncate mb-1" title={conv.title}>
+                                                        {conv.title ? <HighlightedText text={conv.title} query={filter.keyword || ''} /> : t('sidebar.untitled')}
+                                                    </div>
+                                                    <ForkOriginLink
+                                                        origin={getForkOrigin(conv)}
+                                                        getTitle={getTitle}
+                                                        onSelect={(uuid) => {
+                                                            onSelect(uuid);
+                                                            if (window.innerWidth < 768) onClose();
+                                                        }}
+                                                    />
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="text-[10px] opacity-60 font-mono">
+                                                            {formatDate(conv.update_time || conv.create_time)}
+                                                        </span>
+                                                        <RunStatusBadge status={getRunStatus(conv)} />
+                                                    </div>
+                                                </div>
                                     
-                                    <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <button 
-                                            onClick={(e) => startEditing(e, conv)}
-                                            className="p-1.5 text-slate-500 hover:text-blue-400 hover:bg-blue-900/20 rounded"
-                                            title="Rename"
-                                        >
-                                            <Edit2 size={13} />
-                                        </button>
-                                        <button 
-                                            onClick={(e) => handleDelete(e, conv.conversion_uuid)}
-                                            className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-950/30 rounded"
-                                            title="Delete"
-                                        >
-                                            <Trash2 size={13} />
-                                        </button>
+                                                <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                    <button 
+                                                        onClick={(e) => startEditing(e, conv)}
+                                                        className="p-1.5 text-slate-500 hover:text-blue-400 hover:bg-blue-900/20 rounded"
+                                                        title={t('sidebar.rename')}
+                                                    >
+                                                        <Edit2 size={13} />
+                                                    </button>
+                                                    <button 
+                                                        onClick={(e) => handleDelete(e, conv.conversion_uuid)}
+                                                        className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-950/30 rounded"
+                                                        title={t('sidebar.delete')}
+                                                    >
+                                                        <Trash2 size={13} />
+                                                    </button>
+                                                </div>
+                                            </>
+                                        )}
                                     </div>
-                                </>
-                            )}
+                                ))}
+                            </div>
                         </div>
                     ))}
                 </div>
@@ -235,15 +481,31 @@ const Sidebar: React.FC<Props> = ({ activeId, onSelect, onNewChat, isOpen, onClo
                     </div>
                 )}
 
-                {hasNext && !loading && (
-                    <button 
-                        onClick={() => loadData(page + 1, true)}
-                        className="w-full text-center text-xs text-slate-500 hover:text-blue-400 py-3 mt-2 border-t border-white/5"
+                {/* Reaching this loads the next page */}
+                <div ref={sentinelRef} className="h-px" />
+            </div>
+
+            {/* Signed-in User */}
+            {session && (
+                <div className="p-3 border-t border-white/5 flex items-center gap-2 shrink-0">
+                    <UserCircle2 size={20} className="text-slate-500 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                        <div className="text-xs font-medium text-slate-300 truncate" title={session.userId}>{session.displayName}</div>
+                        {session.provider === 'stub' && (
+                            <div className="text-[10px] text-slate-600">{t('sidebar.stubIdentity')}</div>
+                        )}
+                    </div>
+                    <button
+                        onClick={() => {
+                            if (window.confirm(t('sidebar.confirmSignOut'))) authStore.signOut();
+                        }}
+                        className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-950/30 rounded transition-colors"
+                        title={t('sidebar.signOut')}
                     >
-                        加载更多
+                        <LogOut size={14} />
                     </button>
-                )}
-            </div>
+                </div>
+            )}
         </div>
     </>
   );
@@ -0,0 +1,270 @@
+import React, { useCallback, useContext, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Maximize, Minus, Plus } from 'lucide-react';
+import { Role } from '../types';
+import { TimelineBar, layoutTimeline } from '../state/timelineLayout';
+import { nodeHasMatches } from '../state/treeSearch';
+import { TreeSearchContext } from '../state/treeSearchContext';
+import { useTreeSelector, useTreeStore } from '../state/treeStoreContext';
+import { formatDuration } from '../state/runMetrics';
+import { useI18n } from '../i18n/useI18n';
+import { ROLE_FILLS, ROLE_LABEL_KEYS } from './ResearchNode';
+import NodeDetailsPanel from './NodeDetailsPanel';
+
+interface Props {
+  /** Switches to the tree view with the node revealed. */
+  onShowInTree: (nodeId: string) => void;
+}
+
+const LABEL_WIDTH = 180;
+const AXIS_HEIGHT = 24;
+const ROW_HEIGHT = 20;
+const BAR_HEIGHT = 12;
+const RIGHT_PADDING = 24;
+// Bars never get thinner than this, so instant nodes stay clickable
+const MIN_BAR_WIDTH = 3;
+// Tick spacing is the smallest of these steps that leaves at least MIN_TICK_SPACING px between ticks
+const TICK_STEPS_MS = [100, 250, 500, 1000, 2000, 5000, 10_000, 15_000, 30_000, 60_000, 120_000, 300_000, 600_000, 1_800_000];
+const MIN_TICK_SPACING = 80;
+const MAX_ZOOM = 64;
+const ZOOM_STEP = 1.5;
+// Approximate width of a label character, for fitting names into bars
+const CHAR_WIDTH = 6;
+const REVEAL_HIGHLIGHT_MS = 2000;
+
+const STREAMING_COLOR = '#60a5fa';
+const ERROR_COLOR = '#ef4444';
+const CANCELLED_COLOR = '#f59e0b';
+const INTERRUPTED_COLOR = '#fb923c';
+const HIGHLIGHT_COLOR = '#fbbf24';
+
+interface BarProps {
+  bar: TimelineBar;
+  x: number;
+  width: number;
+  label: string;
+  isSelected: boolean;
+  isHighlighted: boolean;
+  isMatch: boolean;
+  onSelect: (nodeId: string) => void;
+}
+
+const TimelineBarMark: React.FC<BarProps> = React.memo(({ bar, x, width, label, isSelected, isHighlighted, isMatch, onSelect }) => {
+  const isStreaming = bar.status === 'streaming' && !bar.isDone;
+  const isError = bar.status === 'error' || bar.role === Role.ERROR;
+  const isCancelled = bar.status === 'cancelled' && !bar.isDone;
+  const isInterrupted = bar.status === 'interrupted' && !bar.isDone;
+  const stroke = isSelected ? '#e2e8f0' : isHighlighted || isMatch ? HIGHLIGHT_COLOR : isError ? ERROR_COLOR : isCancelled ? CANCELLED_COLOR : isInterrupted ? INTERRUPTED_COLOR : isStreaming ? STREAMING_COLOR : 'none';
+  const maxChars = Math.floor((width - 8) / CHAR_WIDTH);
+  const name = bar.name.replace(/\s+/g, ' ').trim();
+
+  return (
+    <g
+      transform={`translate(${x}, ${bar.row * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2})`}
+      className="cursor-pointer"
+      onClick={() => onSelect(bar.id)}
+    >
+      <title>{`${name} · ${label} · ${formatDuration(bar.end - bar.start)}`}</title>
+      <rect
+        width={width}
+        height={BAR_HEIGHT}
+        rx={3}
+        fill={ROLE_FILLS[bar.role] || ROLE_FILLS[Role.SYSTEM]}
+        fillOpacity={bar.isDone || isError ? 0.85 : 0.5}
+        stroke={stroke}
+        strokeWidth={isHighlighted || isSelected ? 2 : 1.25}
+        strokeDasharray={isCancelled && !isSelected && !isHighlighted && !isMatch ? '3 2' : undefined}
+        className={isStreaming && !isSelected && !isHighlighted ? 'animate-pulse' : undefined}
+      />
+      {maxChars >= 4 && (
+        <text x={4} y={BAR_HEIGHT - 3} fontSize={9} className="fill-slate-950 pointer-events-none">
+          {name.length > maxChars ? `${name.slice(0, maxChars - 1)}…` : name}
+        </text>
+      )}
+    </g>
+  );
+});
+
+/**
+ * Gantt-style timeline of the run: each node is a bar from its first to its last chunk, in one lane
+ * per agent, so concurrent sub-agents and tool calls show up side by side. Follows the stream;
+ * clicking a bar opens its card in a side panel.
+ */
+const TimelineView: React.FC<Props> = ({ onShowInTree }) => {
+  const { t } = useI18n();
+  const store = useTreeStore();
+  const state = useTreeSelector(current => current);
+  const layout = useMemo(() => layoutTimeline(state), [state]);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewWidth, setViewWidth] = useState(0);
+  // 1 fits the whole run into the view, and keeps fitting it as the run grows
+  const [zoom, setZoom] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  // Find-bar matches are marked on the bars (match counts are cached per node, see treeSearch)
+  const { query } = useContext(TreeSearchContext);
+
+  // The scroll container is replaced when the first bars appear
+  const hasBars = layout.bars.length > 0;
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewWidth(element.clientWidth));
+    observer.observe(element);
+    setViewWidth(element.clientWidth);
+    return () => observer.disconnect();
+  }, [hasBars]);
+
+  const span = Math.max(layout.endAt - layout.startAt, 1);
+  const fitWidth = Math.max(viewWidth - LABEL_WIDTH - RIGHT_PADDING, 100);
+  const scale = (fitWidth / span) * zoom; // px per ms
+  const chartWidth = span * scale + RIGHT_PADDING;
+  const chartHeight = layout.rowCount * ROW_HEIGHT;
+
+  const tickStep = TICK_STEPS_MS.find(step => step * scale >= MIN_TICK_SPACING) ?? TICK_STEPS_MS[TICK_STEPS_MS.length - 1];
+  const ticks = useMemo(() => {
+    const list: number[] = [];
+    for (let offset = 0; offset <= span; offset += tickStep) list.push(offset);
+    return list;
+  }, [span, tickStep]);
+
+  const barX = (bar: TimelineBar) => (bar.start - layout.startAt) * scale;
+  const layoutRef = useRef({ layout, scale });
+  layoutRef.current = { layout, scale };
+
+  const handleSelect = useCallback((nodeId: string) => {
+    setSelectedId(current => (current === nodeId ? null : nodeId));
+  }, []);
+
+  // Reveal requests (find bar, report references) scroll the bar into view
+  useEffect(() => store.onReveal((nodeId) => {
+    const element = scrollRef.current;
+    const { layout: current, scale: currentScale } = layoutRef.current;
+    const bar = current.bars.find(candidate => candidate.id === nodeId);
+    if (!element || !bar) return;
+    element.scrollTo({
+      left: Math.max(0, LABEL_WIDTH + (bar.start - current.startAt) * currentScale - element.clientWidth / 2),
+      top: Math.max(0, AXIS_HEIGHT + bar.row * ROW_HEIGHT - element.clientHeight / 2),
+      behavior: 'smooth',
+    });
+    setHighlightedId(nodeId);
+  }), [store]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), REVEAL_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const buttonClass = 'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+  if (!hasBars) {
+    return (
+      <div ref={scrollRef} className="h-full flex items-center justify-center text-slate-600 text-sm text-center px-6">
+        {t(state.nodes.size > 0 ? 'timeline.noTiming' : 'app.empty')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full h-full flex flex-col">
+      <div className="flex items-center gap-3 pb-2 text-[10px] text-slate-400 shrink-0">
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          {[Role.HUMAN, Role.ASSISTANT, Role.TOOL_CALL, Role.TOOL, Role.ERROR].map(role => (
+            <span key={role} className="flex items-center gap-1">
+              <span className="w-3 h-2 rounded-sm" style={{ backgroundColor: ROLE_FILLS[role] }} />
+              {t(ROLE_LABEL_KEYS[role])}
+            </span>
+          ))}
+        </div>
+        <span className="ml-auto font-mono text-slate-500">{formatDuration(layout.endAt - layout.startAt)}</span>
+        <div className="flex items-center gap-0.5 p-0.5 rounded-lg bg-slate-900/80 border border-slate-700/50">
+          <button className={buttonClass} onClick={() => setZoom(zoom / ZOOM_STEP)} disabled={zoom <= 1} title={t('zoom.out')}>
+            <Minus size={14} />
+          </button>
+          <button className={buttonClass} onClick={() => setZoom(Math.min(MAX_ZOOM, zoom * ZOOM_STEP))} title={t('zoom.in')}>
+            <Plus size={14} />
+          </button>
+          <button className={buttonClass} onClick={() => setZoom(1)} disabled={zoom === 1} title={t('zoom.fit')}>
+            <Maximize size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-auto custom-scrollbar rounded-lg border border-slate-800 bg-slate-950/30">
+        <div style={{ width: LABEL_WIDTH + chartWidth }}>
+          {/* Time axis */}
+          <div className="sticky top-0 z-10 flex bg-slate-950/95 border-b border-slate-800">
+            <div className="sticky left-0 shrink-0 bg-slate-950" style={{ width: LABEL_WIDTH, height: AXIS_HEIGHT }} />
+            <svg width={chartWidth} height={AXIS_HEIGHT} className="shrink-0">
+              {ticks.map(offset => (
+                <g key={offset} transform={`translate(${offset * scale}, 0)`}>
+                  <line y1={AXIS_HEIGHT - 6} y2={AXIS_HEIGHT} stroke="#475569" />
+                  <text x={3} y={AXIS_HEIGHT - 8} fontSize={9} className="fill-slate-500 font-mono">
+                    {formatDuration(offset)}
+                  </text>
+                </g>
+              ))}
+            </svg>
+          </div>
+
+          <div className="flex">
+            {/* Lane labels */}
+            <div className="sticky left-0 z-[5] shrink-0 bg-slate-950 border-r border-slate-800" style={{ width: LABEL_WIDTH, height: chartHeight }}>
+              {layout.lanes.map(lane => (
+                <div
+                  key={lane.agentId ?? 'top'}
+                  className="absolute left-0 right-0 flex items-start px-2 pt-0.5 border-t border-slate-800/70 text-[11px] truncate"
+                  style={{ top: lane.firstRow * ROW_HEIGHT, height: lane.rowCount * ROW_HEIGHT, paddingLeft: 8 + lane.depth * 10 }}
+                >
+                  {lane.agentId ? (
+                    <button
+                      className="truncate text-purple-300 hover:text-purple-200"
+                      onClick={() => handleSelect(lane.agentId!)}
+                      title={lane.name}
+                    >
+                      {lane.name}
+                    </button>
+                  ) : (
+                    <span className="truncate text-slate-500">{t('timeline.run')}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Bars */}
+            <svg width={chartWidth} height={chartHeight} className="shrink-0">
+              {ticks.map(offset => (
+                <line key={offset} x1={offset * scale} x2={offset * scale} y2={chartHeight} stroke="#1e293b" />
+              ))}
+              {layout.lanes.map(lane => (
+                <line key={lane.agentId ?? 'top'} x2={chartWidth} y1={lane.firstRow * ROW_HEIGHT} y2={lane.firstRow * ROW_HEIGHT} stroke="#1e293b" />
+              ))}
+              {layout.bars.map(bar => (
+                <TimelineBarMark
+                  key={bar.id}
+                  bar={bar}
+                  x={barX(bar)}
+                  width={Math.max(MIN_BAR_WIDTH, (bar.end - bar.start) * scale)}
+                  label={t(ROLE_LABEL_KEYS[bar.role] || 'node.role.system')}
+                  isSelected={bar.id === selectedId}
+                  isHighlighted={bar.id === highlightedId}
+                  isMatch={nodeHasMatches(state.nodes.get(bar.id), query)}
+                  onSelect={handleSelect}
+                />
+              ))}
+            </svg>
+          </div>
+        </div>
+      </div>
+
+      {/* Details of the selected node */}
+      {selectedId && (
+        <NodeDetailsPanel nodeId={selectedId} onShowInTree={onShowInTree} onClose={() => setSelectedId(null)} />
+      )}
+    </div>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,197 @@
+import React, { useCallback, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+export interface VirtualListHandle {
+  /**
+   * Scrolls so the row with the given key sits near the top of the viewport. If `focusSelector`
+   * matches an element inside the row once it is rendered, that element is centered instead.
+   */
+  scrollToKey(key: string, focusSelector?: string): void;
+}
+
+interface Props<T extends { key: string }> {
+  items: T[];
+  /** The element that scrolls (the list may sit anywhere inside it). */
+  scrollRef: React.RefObject<HTMLElement | null>;
+  renderItem: (item: T) => React.ReactNode;
+  /** Height used for rows that haven't been measured yet. */
+  estimateHeight?: (item: T) => number;
+  /** Extra pixels rendered above and below the viewport. */
+  overscan?: number;
+  /** Called after measured row heights change the total height. */
+  onLayoutChange?: () => void;
+  handleRef?: React.Ref<VirtualListHandle>;
+}
+
+const DEFAULT_ESTIMATE = 64;
+
+/**
+ * Windowed list with variable, measured row heights.
+ * Only rows intersecting the viewport (plus overscan) are mounted; the rest is represented by
+ * the container's height. When a row above the viewport changes height, the scroll position is
+ * adjusted so the visible content doesn't jump.
+ */
+function VirtualList<T extends { key: string }>({
+  items,
+  scrollRef,
+  renderItem,
+  estimateHeight = () => DEFAULT_ESTIMATE,
+  overscan = 800,
+  onLayoutChange,
+  handleRef,
+}: Props<T>) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const frameRef = useRef<number | null>(null);
+
+  // Prefix sums of row heights: offsets[i] is the top of row i, offsets[n] the total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(items.length + 1);
+    items.forEach((item, index) => {
+      result[index + 1] = result[index] + (heightsRef.current.get(item.key) ?? estimateHeight(item));
+    });
+    return result;
+  }, [items, layoutVersion]);
+
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+  const indexByKey = useMemo(() => new Map(items.map((item, index) => [item.key, index])), [items]);
+  const indexByKeyRef = useRef(indexByKey);
+  indexByKeyRef.current = indexByKey;
+
+  const listTopInScroller = useCallback(() => {
+    const scroller = scrollRef.current;
+    const list = listRef.current;
+    if (!scroller || !list) return 0;
+    return list.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
+  }, [scrollRef]);
+
+  const updateViewport = useCallback(() => {
+    frameRef.current = null;
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const top = scroller.scrollTop - listTopInScroller();
+    setViewport(prev => (prev.top === top && prev.height === scroller.clientHeight ? prev : { top, height: scroller.clientHeight }));
+  }, [scrollRef, listTopInScroller]);
+
+  const scheduleViewportUpdate = useCallback(() => {
+    if (frameRef.current === null) frameRef.current = requestAnimationFrame(updateViewport);
+  }, [updateViewport]);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    updateViewport();
+    scroller.addEventListener('scroll', scheduleViewportUpdate, { passive: true });
+    const observer = new ResizeObserver(scheduleViewportUpdate);
+    observer.observe(scroller);
+    return () => {
+      scroller.removeEventListener('scroll', scheduleViewportUpdate);
+      observer.disconnect();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [scrollRef, updateViewport, scheduleViewportUpdate]);
+
+  // One observer measures every mounted row
+  const rowObserver = useMemo(() => new ResizeObserver(entries => {
+    const scroller = scrollRef.current;
+    let changed = false;
+    let anchorDelta = 0;
+    const visibleTop = scroller ? scroller.scrollTop - listTopInScroller() : 0;
+
+    for (const entry of entries) {
+      const element = entry.target as HTMLElement;
+      const key = element.dataset.rowKey;
+      if (!key) continue;
+      const height = element.offsetHeight;
+      const index = indexByKeyRef.current.get(key);
+      const previous = heightsRef.current.get(key) ?? (index !== undefined ? offsetsRef.current[index + 1] - offsetsRef.current[index] : height);
+      if (previous === height) continue;
+      heightsRef.current.set(key, height);
+      changed = true;
+      // Keep the visible content in place when a row above the viewport changes size
+      if (index !== undefined && offsetsRef.current[index + 1] <= visibleTop) {
+        anchorDelta += height - previous;
+      }
+    }
+
+    if (!changed) return;
+    if (scroller && anchorDelta !== 0) {
+      scroller.scrollTo({ top: scroller.scrollTop + anchorDelta, behavior: 'instant' });
+    }
+    setLayoutVersion(v => v + 1);
+  }), [scrollRef, listTopInScroller]);
+
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  // Forget heights of rows that no longer exist
+  useEffect(() => {
+    for (const key of heightsRef.current.keys()) {
+      if (!indexByKey.has(key)) heightsRef.current.delete(key);
+    }
+  }, [indexByKey]);
+
+  useLayoutEffect(() => {
+    onLayoutChange?.();
+  }, [layoutVersion]);
+
+  useImperativeHandle(handleRef, () => ({
+    scrollToKey(key: string, focusSelector?: string) {
+      const scroll = () => {
+        const scroller = scrollRef.current;
+        const index = indexByKeyRef.current.get(key);
+        if (!scroller || index === undefined) return;
+        const top = listTopInScroller() + offsetsRef.current[index] - scroller.clientHeight / 4;
+        scroller.scrollTo({ top: Math.max(0, top), behavior: 'instant' });
+      };
+      const focus = () => {
+        const row = [...(listRef.current?.querySelectorAll<HTMLElement>('[data-row-key]') || [])]
+          .find(element => element.dataset.rowKey === key);
+        const target = focusSelector ? row?.querySelector(focusSelector) : null;
+        if (target) target.scrollIntoView({ block: 'center', behavior: 'instant' });
+        else scroll();
+      };
+      scroll();
+      // Rows around the target get measured once mounted; correct for estimate drift
+      requestAnimationFrame(() => requestAnimationFrame(focus));
+    },
+  }), [scrollRef, listTopInScroller]);
+
+  const measureRef = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    rowObserver.observe(element);
+    return () => rowObserver.unobserve(element);
+  }, [rowObserver]);
+
+  // Binary search for the first row ending below the window top
+  const windowTop = viewport.top - overscan;
+  const windowBottom = viewport.top + viewport.height + overscan;
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1] <= windowTop) lo = mid + 1;
+    else hi = mid;
+  }
+  const start = lo;
+  let end = start;
+  while (end < items.length && offsets[end] < windowBottom) end++;
+
+  const totalHeight = offsets[items.length];
+
+  return (
+    <div ref={listRef} style={{ height: totalHeight, position: 'relative' }}>
+      <div style={{ transform: `translateY(${offsets[start]}px)` }}>
+        {items.slice(start, end).map(item => (
+          <div key={item.key} data-row-key={item.key} ref={measureRef}>
+            {renderItem(item)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
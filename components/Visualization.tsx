@@ -1,25 +1,105 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { fetchCompletion, streamThreading, fetchConversationDetail } from '../services/api';
-import { ResearchNode as ResearchNodeType, Role, MessageType, ChunkMessage } from '../types';
-import ResearchNode from './ResearchNode';
+import { fetchCompletion, streamThreading, fetchConversationDetail, cancelThreading } from '../services/api';
+import { Role, ResearchNode, ChunkMessage, MessageType, StreamDiagnostic, StreamConnectionStatus } from '../types';
+import {
+  cancelStreamingNodes,
+  interruptStreamingNodes,
+  resumeInterruptedNodes,
+  settleStreamingNodes,
+  buildTreeFromHistory,
+  historyToChunkLog,
+  setPromptMessageUuid,
+} from '../state/researchTree';
+import { TreeStore, createTreeStore } from '../state/treeStore';
+import { TreeStoreContext, useChunkLogLength, useTreeSelector } from '../state/treeStoreContext';
+import ResearchTree from './ResearchTree';
+import GraphView from './GraphView';
+import TimelineView from './TimelineView';
+import ReplayBar from './ReplayBar';
+import RunMetricsPanel from './RunMetricsPanel';
+import FindBar from './FindBar';
+import { TreeSearchContext, TreeSearchState } from '../state/treeSearchContext';
+import { FollowUpContext } from '../state/followUpContext';
+import { RerunContext } from '../state/rerunContext';
+import { FollowUpTarget, buildFollowUpPrompt, getNodeLabel, getOriginalQuestion } from '../utils/followUp';
+import { recordForkOrigin } from '../services/forks';
+import { ResumePolicy, loadResumePolicy, recordRunStatus, saveResumePolicy } from '../services/interruptedRuns';
 import Sidebar from './Sidebar';
-import { Search, Send, Activity, Loader2, Trash2, Menu, X, Square } from 'lucide-react';
+import LanguageSwitcher from './LanguageSwitcher';
+import { useI18n } from '../i18n/useI18n';
+import { MessageKey, formatDateTime } from '../i18n';
+import { createSessionBundle, downloadSessionBundle, parseSessionBundle } from '../utils/sessionBundle';
+import { Search, Send, Activity, Loader2, Trash2, Menu, X, Square, WifiOff, History, FileDown, FileUp, Lock, TextSearch, ListTree, Network, GanttChart, Gauge, GitBranch, MessageSquareReply, PauseCircle, Play } from 'lucide-react';
+
+type ViewMode = 'tree' | 'graph' | 'timeline';
+
+const VIEW_MODES: { mode: ViewMode; icon: React.ReactNode; label: MessageKey; title: MessageKey }[] = [
+  { mode: 'tree', icon: <ListTree size={16} />, label: 'view.tree', title: 'view.treeTitle' },
+  { mode: 'graph', icon: <Network size={16} />, label: 'view.graph', title: 'view.graphTitle' },
+  { mode: 'timeline', icon: <GanttChart size={16} />, label: 'view.timeline', title: 'view.timelineTitle' },
+];
+
+// Abort reason of the Stop button, as opposed to leaving the conversation
+const CANCEL_REASON = 'cancel';
+
+interface InterruptedRun {
+  conversionUuid: string;
+  messageUuid: string;
+  isResuming: boolean;
+}
 
 const Visualization: React.FC = () => {
+  const { locale, t } = useI18n();
   const [query, setQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Stream payloads that could not be parsed during the current run
+  const [diagnostics, setDiagnostics] = useState<StreamDiagnostic[]>([]);
+  // Connection state of the active stream, used to show the "reconnecting" banner
+  const [connectionStatus, setConnectionStatus] = useState<StreamConnectionStatus | null>(null);
   
   // Sidebar State - closed by default on mobile (< 768px)
   const [isSidebarOpen, setIsSidebarOpen] = useState(() => window.innerWidth >= 768);
   const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
-  // State for the visualization tree
-  const [nodes, setNodes] = useState<Map<string, ResearchNodeType>>(new Map());
-  const [rootIds, setRootIds] = useState<string[]>([]);
+  // The visualization tree lives in a store (reducer in state/researchTree) so streamed chunks
+  // can be batched per frame and each ResearchNode subscribes only to its own node
+  const [store] = useState(createTreeStore);
+  const chunkCount = useChunkLogLength(store);
+
+  // Time-travel replay: while scrubbing, the view shows a store rebuilt from the chunk log
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [replayStore, setReplayStore] = useState<TreeStore | null>(null);
+  const activeStore = replayStore || store;
+
+  // Run summary (timing and throughput) under the header
+  const [isMetricsOpen, setIsMetricsOpen] = useState(false);
+
+  // Find-in-tree bar; its query and current match are highlighted by the node cards
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [treeSearch, setTreeSearch] = useState<TreeSearchState>({ query: '', activeMatch: null });
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  // Tree (cards), graph (node-link) or timeline (Gantt) view of the same store
+  const [viewMode, setViewMode] = useState<ViewMode>('tree');
+  // Node to reveal once the tree view is back from the graph view
+  const pendingRevealRef = useRef<string | null>(null);
+
+  const rootIds = useTreeSelector(state => state.rootIds, activeStore);
+  const hasUnattached = useTreeSelector(state => state.unattachedIds.length > 0, activeStore);
+  const hasSession = useTreeSelector(state => state.nodes.size > 0, store);
   
   // Conversation state
   const [conversionUuid, setConversionUuid] = useState<string | null>(null);
+  // Node the next question follows up on ("follow up from here" on a card or report)
+  const [followUp, setFollowUp] = useState<FollowUpTarget | null>(null);
+  const followUpNode = useTreeSelector(state => (followUp ? state.nodes.get(followUp.nodeId) : undefined), store);
+  // Interrupted run of the loaded conversation (its last message never finished), offered for resuming
+  const [interruptedRun, setInterruptedRun] = useState<InterruptedRun | null>(null);
+  const [resumePolicy, setResumePolicy] = useState<ResumePolicy>(loadResumePolicy);
+  // A session loaded from a bundle file: read-only, never talks to the backend
+  const [importedSession, setImportedSession] = useState<{ title: string; exportedAt: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const scrollRef = useRef<HTMLDivElement>(null);
   const shouldAutoScrollRef = useRef(true);
@@ -27,32 +107,70 @@ const Visualization: React.FC = () => {
   
   // Abort controller to manage cancellation of streams
   const abortControllerRef = useRef<AbortController | null>(null);
-
-  // Helper to update nodes map immutably
-  const updateNodes = useCallback((updater: (map: Map<string, ResearchNodeType>) => void) => {
-    setNodes(prev => {
-      const newMap = new Map<string, ResearchNodeType>(prev);
-      updater(newMap);
-      return newMap;
-    });
-  }, []);
-
-  const stopGeneration = useCallback(() => {
+  // Message whose run is being streamed, cancelled on the backend by the Stop button
+  const activeMessageUuidRef = useRef<string | null>(null);
+  // A resumed run is followed apart from the active run, so the composer stays usable meanwhile
+  const resumeControllerRef = useRef<AbortController | null>(null);
+
+  // Stops following the active stream (and a resumed one), e.g. when leaving the conversation;
+  // the runs themselves go on
+  const detachStream = useCallback(() => {
+    resumeControllerRef.current?.abort();
+    resumeControllerRef.current = null;
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
+      activeMessageUuidRef.current = null;
       setIsSearching(false);
-      
-      // Mark any streaming nodes as cancelled/completed so UI stops spinning
-      updateNodes((map) => {
-        for (const [key, node] of map.entries()) {
-            if (node.status === 'streaming') {
-                map.set(key, { ...node, status: 'completed' }); // Or 'error' if you prefer visual indication
-            }
-        }
-      });
     }
-  }, [updateNodes]);
+    setConnectionStatus(null);
+  }, []);
+
+  // Cancels a run on the backend; the history list then shows its conversation as cancelled
+  const cancelRun = useCallback((messageUuid: string, uuid: string | null) => {
+    cancelThreading(messageUuid)
+      .then(() => {
+        if (uuid) recordRunStatus(uuid, 'cancelled');
+        setHistoryRefreshKey(prev => prev + 1);
+      })
+      .catch(err => setError(t('app.error.cancel', { message: err.message })));
+  }, [t]);
+
+  // Stop button: cancels the run on the backend as well (once its message is known, see runPrompt)
+  // and marks what was still streaming as cancelled
+  const stopGeneration = useCallback(() => {
+    const controller = abortControllerRef.current;
+    if (!controller) return;
+    const messageUuid = activeMessageUuidRef.current;
+    controller.abort(CANCEL_REASON);
+    abortControllerRef.current = null;
+    activeMessageUuidRef.current = null;
+    setIsSearching(false);
+    setConnectionStatus(null);
+    store.update(state => settleStreamingNodes(cancelStreamingNodes(state)));
+    if (messageUuid) cancelRun(messageUuid, conversionUuid);
+  }, [store, cancelRun, conversionUuid]);
+
+  // Stops following a resumed run; the conversation stays loaded and the run stays interrupted
+  const cancelResume = useCallback(() => {
+    const controller = resumeControllerRef.current;
+    if (!controller) return;
+    controller.abort();
+    resumeControllerRef.current = null;
+    setConnectionStatus(null);
+    setInterruptedRun(run => run && { ...run, isResuming: false });
+    store.update(state => settleStreamingNodes(interruptStreamingNodes(state)));
+  }, [store]);
+
+  // Don't keep streaming into a view that's gone (e.g. after signing out)
+  useEffect(() => () => {
+    abortControllerRef.current?.abort();
+    resumeControllerRef.current?.abort();
+  }, []);
+
+  const handleDiagnostic = useCallback((diagnostic: StreamDiagnostic) => {
+    setDiagnostics(prev => [...prev, diagnostic]);
+  }, []);
 
   const handleScroll = useCallback(() => {
     if (!scrollRef.current) return;
@@ -62,6 +180,31 @@ const Visualization: React.FC = () => {
     shouldAutoScrollRef.current = isAtBottom;
   }, []);
 
+  // Ctrl/Cmd + F opens the find bar instead of the browser's (which can't see virtualized rows)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setIsFindOpen(true);
+        findInputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // ResearchTree subscribes to reveal requests when it mounts (child effects run first)
+  useEffect(() => {
+    if (viewMode !== 'tree' || !pendingRevealRef.current) return;
+    activeStore.revealNode(pendingRevealRef.current);
+    pendingRevealRef.current = null;
+  }, [viewMode, activeStore]);
+
+  const showInTree = useCallback((nodeId: string) => {
+    pendingRevealRef.current = nodeId;
+    setViewMode('tree');
+  }, []);
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -81,62 +224,114 @@ const Visualization: React.FC = () => {
         return;
     }
 
-    if (!query.trim()) return;
+    if (!query.trim() || importedSession) return;
+
+    // A follow-up refers to its anchor node; a fork sends it as a new conversation
+    const anchor = followUp ? store.getNode(followUp.nodeId) : undefined;
+    const forkedFrom = anchor && followUp?.fork && conversionUuid ? conversionUuid : null;
+    setFollowUp(null);
 
+    await runPrompt(query, { anchor, forkedFrom });
+  };
+
+  /**
+   * Sends a prompt and streams its run into the tree. With `alternativeOf` the prompt is a new
+   * attempt of that earlier prompt (edit & rerun, regenerate) and the composer keeps its text.
+   * With `anchor` the request quotes that node's context (and, for forks, the original question,
+   * since the fork starts without the conversation's history); the prompt card shows the question
+   * as typed, with a reference to the node.
+   */
+  const runPrompt = async (
+    prompt: string,
+    { anchor, forkedFrom = null, alternativeOf }: { anchor?: ResearchNode; forkedFrom?: string | null; alternativeOf?: string } = {}
+  ) => {
+    // The conversation moves on; an interrupted run is left as it is
+    cancelResume();
+    setInterruptedRun(null);
     setIsSearching(true);
     setError(null);
-    shouldAutoScrollRef.current = true; // Reset auto-scroll on new search
+    setDiagnostics([]);
+    setIsReplayOpen(false);
+    // Reset auto-scroll on new search; a new attempt is revealed where its prompt is shown instead
+    shouldAutoScrollRef.current = !alternativeOf;
     
     // Create new controller for this task
     const controller = new AbortController();
     abortControllerRef.current = controller;
-    
-    // If starting fresh (no conversion ID), clear everything
-    if (!conversionUuid) {
-        setRootIds([]);
-        setNodes(new Map());
+
+    const replacedMessageUuid = alternativeOf ? store.getNode(alternativeOf)?.messageUuid : undefined;
+    const request = anchor
+        ? buildFollowUpPrompt(prompt, anchor, forkedFrom ? getOriginalQuestion(store.getState()) : undefined)
+        : prompt;
+
+    // If starting fresh (no conversion ID) or forking, clear everything. A fork's tree is
+    // kept until the fork is created, and put back if it isn't
+    let treeBeforeFork = forkedFrom ? { state: store.getState(), log: [...store.getLog()] } : null;
+    const restoreTreeBeforeFork = () => {
+        if (treeBeforeFork) store.reset(treeBeforeFork.state, treeBeforeFork.log);
+    };
+    if (!conversionUuid || forkedFrom) {
+        store.reset();
     }
 
-    // Inject User Node for the current query immediately
-    const userMsgId = `human-${Date.now()}`;
-    const userNode: ResearchNodeType = {
-        id: userMsgId,
-        parentId: null,
+    // Inject User Node for the current query immediately (through the chunk log, so replays include it)
+    const humanId = `human-${Date.now()}`;
+    store.enqueue({
+        id: humanId,
+        parent_id: null,
         role: Role.HUMAN,
         name: 'User',
-        content: query,
-        children: [],
-        status: 'completed',
-        timestamp: Date.now(),
-        isFinal: true
-    };
-
-    updateNodes((map) => {
-        map.set(userMsgId, userNode);
+        message: prompt,
+        type: MessageType.FINAL,
+    }, {
+        receivedAt: Date.now(),
+        alternativeOf,
+        anchor: anchor && { nodeId: anchor.id, label: getNodeLabel(anchor) },
     });
-    setRootIds(prev => [...prev, userMsgId]);
+    store.flush();
+    if (alternativeOf) store.revealNode(humanId);
 
+    let failed = false;
     try {
-      const { messageUuid, conversionUuid: newConversionUuid } = await fetchCompletion(query, conversionUuid);
+      const { messageUuid, conversionUuid: newConversionUuid } = await fetchCompletion(request, forkedFrom ? null : conversionUuid, {
+          anchorNodeId: anchor?.id,
+          forkedFrom: forkedFrom || undefined,
+          // The backend branches from before the replaced prompt's message
+          alternativeOf: replacedMessageUuid,
+      });
       
-      if (controller.signal.aborted) return;
+      if (controller.signal.aborted) {
+          // Stopped while the run was being started: it is running on the backend by now.
+          // A stopped fork leaves the view in the original conversation
+          if (controller.signal.reason === CANCEL_REASON) {
+              cancelRun(messageUuid, newConversionUuid || conversionUuid);
+              restoreTreeBeforeFork();
+          }
+          return;
+      }
+      treeBeforeFork = null;
+      store.update(state => setPromptMessageUuid(state, humanId, messageUuid));
 
       if (newConversionUuid) {
           setConversionUuid(newConversionUuid);
+          if (forkedFrom && anchor) {
+              recordForkOrigin(newConversionUuid, {
+                  conversionUuid: forkedFrom,
+                  nodeId: anchor.id,
+                  nodeLabel: getNodeLabel(anchor),
+                  createdAt: Date.now(),
+              });
+          }
       }
       // Refresh history list to show updated timestamp or new conversation
       setHistoryRefreshKey(prev => prev + 1);
       
-      setQuery(''); 
+      if (!alternativeOf) setQuery(''); 
 
-      const stream = streamThreading(messageUuid, controller.signal);
-
-      for await (const chunk of stream) {
-        try {
-            processChunk(chunk);
-        } catch (chunkError) {
-            console.error("Error processing chunk:", chunkError, chunk);
-        }
+      activeMessageUuidRef.current = messageUuid;
+      await consumeThread(messageUuid, controller);
+      if (!controller.signal.aborted && newConversionUuid && recordRunStatus(newConversionUuid, null)) {
+          setHistoryRefreshKey(prev => prev + 1);
       }
 
     } catch (err: any) {
@@ -144,24 +339,36 @@ const Visualization: React.FC = () => {
           console.log('Search aborted');
           return;
       }
-      setError(err.message || '未知错误');
+      failed = true;
+      setError(err.message || t('app.error.unknown'));
+      // The fork wasn't created: back to the conversation it was asked from
+      if (abortControllerRef.current === controller) restoreTreeBeforeFork();
     } finally {
       // Only reset state if this is still the active controller
       if (abortControllerRef.current === controller) {
         setIsSearching(false);
+        setConnectionStatus(null);
         abortControllerRef.current = null;
-        updateNodes((map) => {
-            for (const [key, node] of map.entries()) {
-                if (node.status === 'streaming') {
-                    const finalStatus = node.role === Role.ERROR ? 'error' : 'completed';
-                    map.set(key, { ...node, status: finalStatus });
-                }
-            }
-        });
+        activeMessageUuidRef.current = null;
+        settleTree(failed);
       }
     }
   };
 
+  // Stable for the node cards; always runs the latest `runPrompt`
+  const runPromptRef = useRef(runPrompt);
+  runPromptRef.current = runPrompt;
+  const rerunPrompt = useCallback((nodeId: string, prompt: string) => {
+    // A re-sent follow-up quotes its anchor again, while that node is still in the tree
+    const anchorId = store.getNode(nodeId)?.anchor?.nodeId;
+    runPromptRef.current(prompt, { alternativeOf: nodeId, anchor: anchorId ? store.getNode(anchorId) : undefined });
+  }, [store]);
+
+  const startFollowUp = useCallback((nodeId: string) => {
+    setFollowUp({ nodeId, fork: false });
+    textareaRef.current?.focus();
+  }, []);
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
       e.preventDefault();
@@ -170,196 +377,200 @@ const Visualization: React.FC = () => {
   };
 
   const handleNewChat = () => {
-      stopGeneration();
+      detachStream();
       
-      setNodes(new Map());
-      setRootIds([]);
+      store.reset();
+      setIsReplayOpen(false);
+      setImportedSession(null);
+      setInterruptedRun(null);
       setConversionUuid(null);
+      setFollowUp(null);
       setQuery('');
       setError(null);
+      setDiagnostics([]);
       setIsSearching(false);
       setHistoryRefreshKey(prev => prev + 1);
       shouldAutoScrollRef.current = true;
   };
 
   const handleSelectHistory = async (uuid: string) => {
-      stopGeneration(); // Abort any ongoing operations
+      detachStream(); // Abort any ongoing operations
       
       const controller = new AbortController();
       abortControllerRef.current = controller;
 
+      let failed = false;
+      let interrupted: InterruptedRun | null = null;
       try {
           setIsSearching(true);
           setConversionUuid(uuid);
-          setNodes(new Map());
-          setRootIds([]);
+          store.reset();
+          setIsReplayOpen(false);
+          setImportedSession(null);
+          setInterruptedRun(null);
+          setFollowUp(null);
           setError(null);
+          setDiagnostics([]);
           shouldAutoScrollRef.current = true;
 
           const entities = await fetchConversationDetail(uuid);
           
           if (controller.signal.aborted) return;
 
-          // Reconstruct Tree from History
-          const tempNodes = new Map<string, ResearchNodeType>();
-          const tempRoots: string[] = [];
-
-          // Helper to process a completed node from history
-          const processHistoryNode = (displayMsg: any, parentId: string | null, fallbackId: string) => {
-              const nodeId = displayMsg.id || fallbackId;
-              const effectiveParentId = displayMsg.parent_id || parentId;
-
-              // Create Node
-              if (!tempNodes.has(nodeId)) {
-                  tempNodes.set(nodeId, {
-                      id: nodeId,
-                      parentId: effectiveParentId,
-                      role: displayMsg.role,
-                      name: displayMsg.name || (displayMsg.role === Role.HUMAN ? 'User' : 'Unknown'),
-                      content: displayMsg.role !== Role.TOOL_CALL && displayMsg.role !== Role.TOOL ? displayMsg.message : '',
-                      toolArgs: displayMsg.role === Role.TOOL_CALL ? displayMsg.message : undefined,
-                      toolResult: displayMsg.role === Role.TOOL ? displayMsg.message : undefined,
-                      children: [],
-                      status: displayMsg.role === Role.ERROR ? 'error' : 'completed',
-                      timestamp: Date.now(),
-                      // Explicitly strict check: only set isFinal if type is exactly 'final'
-                      isFinal: displayMsg.type === MessageType.FINAL || displayMsg.type === 'final'
-                  });
-
-                  if (effectiveParentId) {
-                      const p = tempNodes.get(effectiveParentId);
-                      if (p && !p.children.includes(nodeId)) {
-                          p.children.push(nodeId);
-                      }
-                  } else {
-                      if (!tempRoots.includes(nodeId)) tempRoots.push(nodeId);
-                  }
-              } else {
-                  // Merge content if node exists
-                  const node = tempNodes.get(nodeId)!;
-                  if (displayMsg.role === Role.TOOL) {
-                      node.toolResult = displayMsg.message;
-                  } else if (displayMsg.role === Role.TOOL_CALL) {
-                      node.toolArgs = displayMsg.message;
-                  } else {
-                      node.content = displayMsg.message;
-                  }
-                  
-                  // Update isFinal if strict match found in merged part
-                  if (displayMsg.type === MessageType.FINAL || displayMsg.type === 'final') {
-                      node.isFinal = true;
-                  }
-              }
-          };
-
-          for (const entity of entities) {
-              entity.content.forEach((msg, index) => {
-                   const fallbackId = `${entity.message_uuid}_${index}`;
-                   processHistoryNode(msg, null, fallbackId);
-              });
-          }
-
-          setNodes(tempNodes);
-          setRootIds(tempRoots);
+          // Reconstruct Tree from History through the same reducer as live chunks; the history's
+          // chunks also seed the chunk log so the conversation can be replayed
+          const receivedAt = Date.now();
+          store.reset(buildTreeFromHistory(entities, undefined, receivedAt), historyToChunkLog(entities, receivedAt));
 
-          // Resume incomplete thread if applicable
+          // An incomplete last thread is shown as interrupted; it is only resumed on request
+          // (or right away with the auto-resume policy), so the conversation can just be read
           const lastEntity = entities[entities.length - 1];
-          if (lastEntity && lastEntity.thread_status === false) {
-             console.log("Resuming incomplete thread:", lastEntity.message_uuid);
-             
-             const stream = streamThreading(lastEntity.message_uuid, controller.signal);
-             for await (const chunk of stream) {
-               try {
-                  processChunk(chunk);
-               } catch (chunkError) {
-                   console.error("Error processing chunk in resume:", chunkError);
-               }
-             }
-             
-             setHistoryRefreshKey(prev => prev + 1);
+          const status = !lastEntity ? null
+              : lastEntity.cancelled ? 'cancelled'
+              : lastEntity.thread_status === false ? 'interrupted'
+              : null;
+          if (recordRunStatus(uuid, status)) setHistoryRefreshKey(prev => prev + 1);
+          if (status === 'interrupted') {
+              interrupted = { conversionUuid: uuid, messageUuid: lastEntity.message_uuid, isResuming: false };
+              setInterruptedRun(interrupted);
           }
 
       } catch (err: any) {
           if (err.name === 'AbortError' || controller.signal.aborted) return;
-          setError('加载对话失败: ' + err.message);
+          failed = true;
+          setError(t('app.error.loadConversation', { message: err.message }));
       } finally {
           if (abortControllerRef.current === controller) {
               setIsSearching(false);
+              setConnectionStatus(null);
               abortControllerRef.current = null;
-              updateNodes((map) => {
-                for (const [key, node] of map.entries()) {
-                    if (node.status === 'streaming') {
-                        const finalStatus = node.role === Role.ERROR ? 'error' : 'completed';
-                        map.set(key, { ...node, status: finalStatus });
-                    }
-                }
-              });
+              activeMessageUuidRef.current = null;
+              settleTree(failed);
           }
       }
+
+      if (interrupted && resumePolicy === 'auto') {
+          console.log("Resuming incomplete thread:", interrupted.messageUuid);
+          await resumeRun(interrupted);
+      }
   };
 
-  const processChunk = (chunk: ChunkMessage) => {
-    const { id, parent_id, role, name, message, type } = chunk;
-    const nodeId = id || 'unknown';
-
-    updateNodes((map) => {
-      const existingNode = map.get(nodeId);
-      let newNode: ResearchNodeType;
-
-      if (!existingNode) {
-        newNode = {
-          id: nodeId,
-          parentId: parent_id || null,
-          role, 
-          name: name || 'Unknown',
-          content: '',
-          children: [],
-          status: 'streaming',
-          timestamp: Date.now(),
-          toolArgs: '',
-          toolResult: '',
-          isFinal: false
-        };
-        
-        map.set(nodeId, newNode);
-
-        if (parent_id) {
-          const parent = map.get(parent_id);
-          if (parent) {
-             const newParent = { ...parent, children: [...parent.children] };
-             if (!newParent.children.includes(nodeId)) {
-                newParent.children.push(nodeId);
-             }
-             map.set(parent_id, newParent);
+  /**
+   * Streams the interrupted run of the loaded conversation into the tree. The banner can stop
+   * following it without unloading the conversation (see cancelResume).
+   */
+  const resumeRun = async (run: InterruptedRun) => {
+      resumeControllerRef.current?.abort();
+      const controller = new AbortController();
+      resumeControllerRef.current = controller;
+      setInterruptedRun({ ...run, isResuming: true });
+      setError(null);
+      store.update(resumeInterruptedNodes);
+
+      let failed = false;
+      try {
+          await consumeThread(run.messageUuid, controller);
+          if (controller.signal.aborted) return;
+          recordRunStatus(run.conversionUuid, null);
+          setInterruptedRun(null);
+          setHistoryRefreshKey(prev => prev + 1);
+      } catch (err: any) {
+          if (err.name === 'AbortError' || controller.signal.aborted) return;
+          failed = true;
+          setInterruptedRun({ ...run, isResuming: false });
+          setError(t('app.error.resume', { message: err.message }));
+      } finally {
+          if (resumeControllerRef.current === controller) {
+              resumeControllerRef.current = null;
+              setConnectionStatus(null);
+              // A run that couldn't be resumed is still interrupted (the banner offers it again)
+              if (failed) store.update(state => settleStreamingNodes(interruptStreamingNodes(state)));
+              else settleTree(false);
           }
-        } else {
-          setRootIds(prev => prev.includes(nodeId) ? prev : [...prev, nodeId]);
-        }
-      } else {
-          newNode = { ...existingNode };
-          map.set(nodeId, newNode);
       }
+  };
 
-      if (role === Role.TOOL) {
-          newNode.toolResult = (newNode.toolResult || '') + message;
-          newNode.status = 'completed'; 
-      } 
-      else if (role === Role.TOOL_CALL) {
-          newNode.toolArgs = (newNode.toolArgs || '') + message;
-      } 
-      else {
-          newNode.content = (newNode.content || '') + message;
-      }
+  // Gives up on the interrupted run: it is cancelled on the backend, what it produced stays
+  const discardInterruptedRun = () => {
+      if (!interruptedRun) return;
+      resumeControllerRef.current?.abort();
+      resumeControllerRef.current = null;
+      setConnectionStatus(null);
+      setInterruptedRun(null);
+      store.update(state => settleStreamingNodes(cancelStreamingNodes(state)));
+      cancelRun(interruptedRun.messageUuid, interruptedRun.conversionUuid);
+  };
+
+  const changeResumePolicy = (policy: ResumePolicy) => {
+      setResumePolicy(policy);
+      saveResumePolicy(policy);
+  };
 
-      // STRICT CHECK: Only mark as final if message type is strictly 'final'
-      if (type === MessageType.FINAL) {
-        newNode.status = role === Role.ERROR ? 'error' : 'completed';
-        newNode.isFinal = true;
+  const handleExportSession = () => {
+      store.flush();
+      downloadSessionBundle(createSessionBundle(store.getState(), store.getLog(), conversionUuid));
+  };
+
+  const handleImportSession = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow importing the same file again
+      if (!file) return;
+
+      try {
+          const session = parseSessionBundle(await file.text());
+          detachStream();
+          store.reset(session.state, session.chunks);
+          setImportedSession({ title: session.title, exportedAt: session.exportedAt });
+          setInterruptedRun(null);
+          setIsReplayOpen(false);
+          setFollowUp(null);
+          setConversionUuid(null);
+          setQuery('');
+          setError(null);
+          setDiagnostics([]);
+          shouldAutoScrollRef.current = false;
+      } catch (err: any) {
+          setError(t('app.error.importSession', { message: err.message }));
       }
+  };
+
+  // Chunks are coalesced and applied once per animation frame
+  const processChunk = (chunk: ChunkMessage) => {
+    store.enqueue(chunk, { receivedAt: Date.now() });
+  };
+
+  /**
+   * Streams a message's thread into the tree. Used for new searches and for resuming
+   * interrupted runs (see resumeRun); reconnects are handled inside `streamThreading`
+   * and reported through `connectionStatus`.
+   */
+  const consumeThread = async (messageUuid: string, controller: AbortController) => {
+    const stream = streamThreading(messageUuid, controller.signal, {
+      // The backend ends every run with a top-level final or error chunk
+      expectRunEnd: true,
+      onDiagnostic: handleDiagnostic,
+      onStatus: (status) => {
+        if (!controller.signal.aborted) setConnectionStatus(status);
+      },
     });
+
+    for await (const chunk of stream) {
+      try {
+          processChunk(chunk);
+      } catch (chunkError) {
+          console.error("Error processing chunk:", chunkError, chunk);
+      }
+    }
   };
 
-  useEffect(() => {
+  // Once a stream is over, nodes still marked as streaming are settled: completed when the
+  // run ended normally, error when it could not be resumed (so it doesn't look finished)
+  const settleTree = (failed: boolean) => {
+    store.update(state => settleStreamingNodes(state, failed));
+  };
+
+  // Keep the view stuck to the bottom while the user hasn't scrolled away
+  const stickToBottom = useCallback(() => {
     if (scrollRef.current && shouldAutoScrollRef.current) {
         // Use requestAnimationFrame to ensure DOM has updated
         requestAnimationFrame(() => {
@@ -368,9 +579,74 @@ const Visualization: React.FC = () => {
             }
         });
     }
-  }, [nodes]); // Trigger on node updates
+  }, []);
+
+  // Trigger on node updates
+  useEffect(() => activeStore.subscribe(stickToBottom), [activeStore, stickToBottom]);
+
+  const importedBanner = importedSession && (
+    <div className="max-w-5xl mx-auto mt-4 p-3 flex items-center gap-3 rounded-lg border border-sky-500/30 bg-sky-900/10 text-sky-200 text-xs">
+        <Lock size={14} className="text-sky-400 shrink-0" />
+        <span className="flex-1 min-w-0 truncate">
+           {t('session.readOnly')}<span className="font-semibold">{importedSession.title}</span>
+           {importedSession.exportedAt && (
+               <span className="text-sky-200/50"> — {t('session.exportedAt', { date: formatDateTime(locale, importedSession.exportedAt) })}</span>
+           )}
+        </span>
+        <button onClick={handleNewChat} className="shrink-0 px-2 py-1 rounded-md hover:bg-sky-500/10 hover:text-white transition-colors">
+           {t('session.close')}
+        </button>
+    </div>
+  );
+
+  const interruptedBanner = interruptedRun && (
+    <div className="max-w-5xl mx-auto mt-4 p-3 flex flex-wrap items-center gap-3 rounded-lg border border-amber-500/30 bg-amber-900/10 text-amber-200 text-xs">
+        {interruptedRun.isResuming
+            ? <Loader2 size={14} className="text-amber-400 shrink-0 animate-spin" />
+            : <PauseCircle size={14} className="text-amber-400 shrink-0" />}
+        <span className="flex-1 min-w-0">
+           {t(interruptedRun.isResuming ? 'interrupted.resuming' : 'interrupted.message')}
+        </span>
+        <label className="flex items-center gap-1.5 text-amber-200/70 cursor-pointer select-none" title={t('interrupted.autoResumeTitle')}>
+           <input
+               type="checkbox"
+               checked={resumePolicy === 'auto'}
+               onChange={(e) => changeResumePolicy(e.target.checked ? 'auto' : 'manual')}
+               className="accent-amber-500"
+           />
+           {t('interrupted.autoResume')}
+        </label>
+        {interruptedRun.isResuming ? (
+            <button onClick={cancelResume} className="shrink-0 px-2 py-1 rounded-md hover:bg-amber-500/10 hover:text-white transition-colors" title={t('interrupted.stopResumingTitle')}>
+               {t('interrupted.stopResuming')}
+            </button>
+        ) : (
+            <button onClick={() => resumeRun(interruptedRun)} className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-md bg-amber-500/15 hover:bg-amber-500/25 hover:text-white transition-colors">
+               <Play size={12} />
+               {t('interrupted.resume')}
+            </button>
+        )}
+        <button onClick={discardInterruptedRun} className="shrink-0 px-2 py-1 rounded-md hover:bg-amber-500/10 hover:text-white transition-colors" title={t('interrupted.discardTitle')}>
+           {t('interrupted.discard')}
+        </button>
+    </div>
+  );
+
+  const reconnectingBanner = connectionStatus?.state === 'reconnecting' && (
+    <div className="max-w-5xl mx-auto mt-4 p-3 flex items-center gap-3 rounded-lg border border-amber-500/30 bg-amber-900/10 text-amber-200 text-xs">
+        <WifiOff size={16} className="text-amber-400 shrink-0" />
+        <span className="flex-1">
+           {t('app.reconnecting', { attempt: connectionStatus.attempt })}
+           {connectionStatus.reason && <span className="text-amber-200/50"> — {connectionStatus.reason}</span>}
+        </span>
+        <Loader2 size={14} className="animate-spin text-amber-400 shrink-0" />
+    </div>
+  );
 
   return (
+    <TreeStoreContext.Provider value={activeStore}>
+    <FollowUpContext.Provider value={importedSession ? null : startFollowUp}>
+    <RerunContext.Provider value={importedSession || isSearching || isReplayOpen ? null : rerunPrompt}>
     <div className="flex h-screen w-full bg-background text-slate-200 overflow-hidden relative">
       
       {/* Sidebar */}
@@ -403,44 +679,170 @@ const Visualization: React.FC = () => {
                 </div>
                 <div>
                     <h1 className="text-lg md:text-xl font-bold text-slate-100 tracking-tight hidden md:block">
-                    深度研究智能体
+                    {t('app.title')}
                     </h1>
                     <h1 className="text-lg font-bold text-slate-100 tracking-tight md:hidden">
-                    智能体
+                    {t('app.titleShort')}
                     </h1>
                 </div>
               </div>
+              <div className="flex items-center gap-1">
+                <div className="flex items-center gap-0.5 p-0.5 mr-1 rounded-lg border border-slate-700/50 bg-slate-900/50">
+                    {VIEW_MODES.map(option => (
+                        <button
+                            key={option.mode}
+                            onClick={() => setViewMode(option.mode)}
+                            className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-colors ${
+                                viewMode === option.mode ? 'bg-blue-500/15 text-blue-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                            }`}
+                            title={t(option.title)}
+                        >
+                            {option.icon}
+                            <span className="hidden lg:inline">{t(option.label)}</span>
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={() => setIsFindOpen(!isFindOpen)}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs transition-colors ${
+                        isFindOpen ? 'bg-blue-500/15 text-blue-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                    }`}
+                    title={t('header.findTitle')}
+                >
+                    <TextSearch size={16} />
+                    <span className="hidden md:inline">{t('header.find')}</span>
+                </button>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isSearching}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                    title={t('header.importTitle')}
+                >
+                    <FileUp size={16} />
+                    <span className="hidden md:inline">{t('header.import')}</span>
+                </button>
+                <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportSession} />
+                <button
+                    onClick={handleExportSession}
+                    disabled={!hasSession || isSearching}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                    title={t('header.exportTitle')}
+                >
+                    <FileDown size={16} />
+                    <span className="hidden md:inline">{t('header.export')}</span>
+                </button>
+                <button
+                    onClick={() => setIsReplayOpen(!isReplayOpen)}
+                    disabled={chunkCount === 0 && !isReplayOpen}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+                        isReplayOpen ? 'bg-blue-500/15 text-blue-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                    }`}
+                    title={t('header.replayTitle')}
+                >
+                    <History size={16} />
+                    <span className="hidden md:inline">{t('header.replay')}</span>
+                </button>
+                <button
+                    onClick={() => setIsMetricsOpen(!isMetricsOpen)}
+                    disabled={!hasSession && !isMetricsOpen}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+                        isMetricsOpen ? 'bg-blue-500/15 text-blue-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                    }`}
+                    title={t('header.metricsTitle')}
+                >
+                    <Gauge size={16} />
+                    <span className="hidden md:inline">{t('header.metrics')}</span>
+                </button>
+                <LanguageSwitcher className="ml-1" />
+              </div>
           </div>
 
-          {/* Scroll Area */}
+          {isFindOpen && (
+              <FindBar onSearchChange={setTreeSearch} onClose={() => setIsFindOpen(false)} inputRef={findInputRef} />
+          )}
+
+          {isReplayOpen && (
+              <ReplayBar store={store} onStoreChange={setReplayStore} onClose={() => setIsReplayOpen(false)} />
+          )}
+
+          {isMetricsOpen && (
+              <RunMetricsPanel store={store} onClose={() => setIsMetricsOpen(false)} />
+          )}
+
+          {viewMode !== 'tree' ? (
+          <div className="flex-1 min-h-0 flex flex-col px-4 pb-36">
+              {importedBanner}
+              {interruptedBanner}
+              {reconnectingBanner}
+              <div className="flex-1 min-h-0 mt-2">
+                <TreeSearchContext.Provider value={treeSearch}>
+                  {viewMode === 'graph' ? <GraphView onShowInTree={showInTree} /> : <TimelineView onShowInTree={showInTree} />}
+                </TreeSearchContext.Provider>
+              </div>
+          </div>
+          ) : (
+          /* Scroll Area */
           <div 
-            className="flex-1 min-h-0 overflow-y-auto px-4 scroll-smooth pb-40" 
+            className="flex-1 min-h-0 overflow-y-auto px-4 pb-40" 
             ref={scrollRef}
             onScroll={handleScroll}
           >
-              {rootIds.length === 0 && !isSearching && (
+              {rootIds.length === 0 && !hasUnattached && !isSearching && (
                  <div className="h-full flex flex-col items-center justify-center text-slate-600 gap-4 opacity-50 min-h-[40vh]">
                     <Search size={48} strokeWidth={1.5} />
-                    <p>准备开始研究</p>
+                    <p>{t('app.empty')}</p>
                  </div>
               )}
 
-              <div className="space-y-4 pt-4 max-w-5xl mx-auto">
-                {rootIds.map(rootId => (
-                    <ResearchNode key={rootId} nodeId={rootId} nodes={nodes} />
-                ))}
+              {importedBanner}
+              {interruptedBanner}
+
+              <div className="pt-2 max-w-5xl mx-auto">
+                <TreeSearchContext.Provider value={treeSearch}>
+                  <ResearchTree scrollRef={scrollRef} onLayoutChange={stickToBottom} />
+                </TreeSearchContext.Provider>
               </div>
 
+              {reconnectingBanner}
+
               {isSearching && (
                  <div className="flex justify-center pt-8 pb-4">
                      <Loader2 className="w-6 h-6 animate-spin text-blue-500/50" />
                  </div>
               )}
           </div>
+          )}
 
           {/* Input Area */}
           <div className="absolute bottom-0 left-0 right-0 p-4 md:p-6 bg-gradient-to-t from-background via-background/95 to-transparent z-30 pointer-events-none">
             <div className="max-w-3xl mx-auto pointer-events-auto">
+                {followUp && followUpNode && (
+                    <div className="mb-2 flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-900/95 border border-blue-500/30 text-xs text-slate-300 shadow-lg animate-in fade-in slide-in-from-bottom-2">
+                        <MessageSquareReply size={14} className="text-blue-400 shrink-0" />
+                        <button
+                            onClick={() => activeStore.revealNode(followUp.nodeId)}
+                            className="flex-1 min-w-0 text-left truncate hover:text-white"
+                            title={t('followUp.locate')}
+                        >
+                            {t('followUp.anchor', { label: getNodeLabel(followUpNode) })}
+                        </button>
+                        {conversionUuid && (
+                            <label className="flex items-center gap-1.5 shrink-0 cursor-pointer text-slate-400 hover:text-slate-200" title={t('followUp.forkTitle')}>
+                                <input
+                                    type="checkbox"
+                                    checked={followUp.fork}
+                                    onChange={(e) => setFollowUp({ ...followUp, fork: e.target.checked })}
+                                    className="accent-blue-500"
+                                />
+                                <GitBranch size={12} />
+                                {t('followUp.fork')}
+                            </label>
+                        )}
+                        <button onClick={() => setFollowUp(null)} className="p-0.5 shrink-0 text-slate-500 hover:text-white" title={t('followUp.cancel')}>
+                            <X size={14} />
+                        </button>
+                    </div>
+                )}
                 <form onSubmit={handleSearch} className="relative group">
                 <div className="absolute inset-0 bg-gradient-to-r from-blue-600/20 to-purple-600/20 rounded-xl blur-lg opacity-0 group-hover:opacity-100 transition duration-500"></div>
                 <div className="relative flex items-end bg-slate-900/90 border border-slate-700/50 rounded-xl shadow-2xl backdrop-blur-xl overflow-hidden ring-1 ring-white/5 focus-within:ring-blue-500/50 transition-all">
@@ -450,11 +852,11 @@ const Visualization: React.FC = () => {
                     <textarea 
                         ref={textareaRef}
                         className="w-full bg-transparent p-4 text-slate-100 placeholder-slate-500 focus:outline-none resize-none max-h-[200px] overflow-y-auto scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent"
-                        placeholder={conversionUuid ? "请输入追问... (Ctrl + Enter 发送)" : "今天想研究什么？ (Ctrl + Enter 发送)"}
+                        placeholder={t(importedSession ? 'input.placeholder.readOnly' : conversionUuid ? 'input.placeholder.followUp' : 'input.placeholder.new')}
                         value={query}
                         onChange={(e) => setQuery(e.target.value)}
                         onKeyDown={handleKeyDown}
-                        disabled={isSearching}
+                        disabled={isSearching || !!importedSession}
                         rows={1}
                     />
                     <button 
@@ -472,7 +874,15 @@ const Visualization: React.FC = () => {
                 </form>
                 
                 <div className="text-center mt-3 text-[10px] text-slate-600 font-mono">
-                    AI 智能体研究 • {isSearching ? '处理中...' : '就绪'}
+                    {t('app.footer')} • {t(connectionStatus?.state === 'reconnecting' ? 'app.status.reconnecting' : isSearching ? 'app.status.processing' : 'app.status.ready')}
+                    {diagnostics.length > 0 && (
+                        <span
+                            className="ml-1 text-amber-500/80 cursor-help"
+                            title={diagnostics.slice(-5).map(d => `[${d.kind}] ${d.message}: ${d.raw.slice(0, 120)}`).join('\n')}
+                        >
+                            • {t('app.diagnostics', { count: diagnostics.length })}
+                        </span>
+                    )}
                 </div>
             </div>
           </div>
@@ -487,6 +897,9 @@ const Visualization: React.FC = () => {
           )}
       </div>
     </div>
+    </RerunContext.Provider>
+    </FollowUpContext.Provider>
+    </TreeStoreContext.Provider>
   );
 };
 
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Download } from 'lucide-react';
+import { downloadFile } from '../../utils/download';
+import { OUTPUT_FILE_TYPES, sniffOutputFormat } from '../../utils/toolOutput';
+import { useI18n } from '../../i18n/useI18n';
+
+interface Props {
+  text: string;
+  /** File name without extension; the extension follows the sniffed content type. */
+  fileStem: string;
+  className?: string;
+}
+
+const COPIED_FEEDBACK_MS = 1500;
+
+/**
+ * Copy-to-clipboard and download buttons for a block of tool input or output.
+ */
+const BlockActions: React.FC<Props> = ({ text, fileStem, className = '' }) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy to clipboard', err);
+    }
+  };
+
+  const handleDownload = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const { extension, mimeType } = OUTPUT_FILE_TYPES[sniffOutputFormat(text)];
+    downloadFile(`${fileStem}.${extension}`, text, mimeType);
+  };
+
+  const buttonClass = 'p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-700/60 transition-colors';
+
+  return (
+    <div className={`flex items-center gap-0.5 ${className}`}>
+      <button className={buttonClass} onClick={handleCopy} title={t(copied ? 'output.copied' : 'output.copy')}>
+        {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
+      </button>
+      <button className={buttonClass} onClick={handleDownload} title={t('output.download')}>
+        <Download size={12} />
+      </button>
+    </div>
+  );
+};
+
+export default BlockActions;
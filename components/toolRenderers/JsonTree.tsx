@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { useI18n } from '../../i18n/useI18n';
+
+// Children are rendered in pages so huge arrays don't mount thousands of rows at once
+const CHILD_PAGE_SIZE = 100;
+// Longer strings are cut until clicked
+const STRING_PREVIEW_LENGTH = 300;
+// Containers open by default up to this depth, when they are small
+const AUTO_EXPAND_DEPTH = 2;
+const AUTO_EXPAND_MAX_CHILDREN = 20;
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  value !== null && typeof value === 'object';
+
+const JsonPrimitive: React.FC<{ value: unknown }> = ({ value }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (typeof value === 'string') {
+    const isLong = value.length > STRING_PREVIEW_LENGTH;
+    return (
+      <span
+        className={`text-green-300/90 break-all ${isLong ? 'cursor-pointer' : ''}`}
+        onClick={isLong ? () => setIsExpanded(!isExpanded) : undefined}
+      >
+        "{isLong && !isExpanded ? `${value.slice(0, STRING_PREVIEW_LENGTH)}…` : value}"
+      </span>
+    );
+  }
+  if (typeof value === 'number') return <span className="text-sky-300">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-300">{String(value)}</span>;
+  return <span className="text-slate-500">null</span>;
+};
+
+const JsonEntry: React.FC<{ name?: string; value: unknown; depth: number }> = ({ name, value, depth }) => {
+  const { t } = useI18n();
+  const entries = isContainer(value) ? Object.entries(value) : [];
+  const [isExpanded, setIsExpanded] = useState(
+    () => depth < AUTO_EXPAND_DEPTH && entries.length <= AUTO_EXPAND_MAX_CHILDREN
+  );
+  const [visibleCount, setVisibleCount] = useState(CHILD_PAGE_SIZE);
+
+  const label = name !== undefined && <span className="text-orange-200/80">{name}: </span>;
+
+  if (!isContainer(value)) {
+    return <div className="pl-4">{label}<JsonPrimitive value={value} /></div>;
+  }
+
+  const isArray = Array.isArray(value);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+  const remaining = entries.length - visibleCount;
+
+  return (
+    <div>
+      <div className="flex items-start cursor-pointer hover:bg-slate-800/40 rounded" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="w-4 shrink-0 pt-0.5 text-slate-500">
+          {entries.length > 0 && (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+        </span>
+        <span>
+          {label}
+          <span className="text-slate-400">{open}</span>
+          {!isExpanded && (
+            <>
+              {entries.length > 0 && <span className="text-slate-600"> … </span>}
+              <span className="text-slate-400">{close}</span>
+              <span className="ml-2 text-slate-600">
+                {t(isArray ? 'output.json.items' : 'output.json.keys', { count: entries.length })}
+              </span>
+            </>
+          )}
+        </span>
+      </div>
+      {isExpanded && (
+        <>
+          <div className="ml-2 pl-2 border-l border-slate-700/50">
+            {/* Children mount only when expanded, so collapsed subtrees cost nothing */}
+            {entries.slice(0, visibleCount).map(([key, child]) => (
+              <JsonEntry key={key} name={key} value={child} depth={depth + 1} />
+            ))}
+            {remaining > 0 && (
+              <button
+                className="pl-4 py-0.5 text-blue-400 hover:text-blue-300"
+                onClick={() => setVisibleCount(visibleCount + CHILD_PAGE_SIZE)}
+              >
+                {t('output.json.showMore', { count: Math.min(remaining, CHILD_PAGE_SIZE), total: remaining })}
+              </button>
+            )}
+          </div>
+          <div className="pl-4 text-slate-400">{close}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Collapsible view of a parsed JSON value.
+ */
+const JsonTree: React.FC<{ value: unknown }> = ({ value }) => (
+  <div className="font-mono text-xs leading-5">
+    <JsonEntry value={value} depth={0} />
+  </div>
+);
+
+export default JsonTree;
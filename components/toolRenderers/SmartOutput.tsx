@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { Viewer } from '@bytemd/react';
+import { ResearchNode } from '../../types';
+import { findOccurrences } from '../../state/treeSearch';
+import { useFieldHighlight } from '../../state/treeSearchContext';
+import { markdownPlugins } from '../../utils/markdown';
+import { OutputFormat, parseJsonOutput, sanitizeHtml, sniffOutputFormat } from '../../utils/toolOutput';
+import { MessageKey, formatNumber } from '../../i18n';
+import { useI18n } from '../../i18n/useI18n';
+import HighlightedText from '../HighlightedText';
+import JsonTree from './JsonTree';
+
+// Workaround for type definition mismatch in @bytemd/react
+const MarkdownViewer = Viewer as any;
+
+// Characters rendered at first, and added per "show more"; JSON trees expand lazily instead
+const PREVIEW_LENGTH = 20_000;
+const EXPAND_STEP = 100_000;
+// Context kept after a find-bar match that lies beyond the preview
+const MATCH_CONTEXT_LENGTH = 500;
+
+const FORMAT_LABELS: Record<OutputFormat, MessageKey> = {
+  json: 'output.format.json',
+  markdown: 'output.format.markdown',
+  html: 'output.format.html',
+  text: 'output.format.text',
+};
+
+const HtmlPreview: React.FC<{ html: string; title: string }> = ({ html, title }) => {
+  const sanitized = useMemo(() => sanitizeHtml(html), [html]);
+  return (
+    // No allow-scripts / allow-same-origin: the preview can't run code or reach the app
+    <iframe
+      sandbox="allow-popups allow-popups-to-escape-sandbox"
+      referrerPolicy="no-referrer"
+      srcDoc={sanitized}
+      title={title}
+      className="w-full h-80 bg-white rounded-b"
+    />
+  );
+};
+
+interface Props {
+  node: ResearchNode;
+  result: string;
+  /** Without its own border and background, when embedded in another card. */
+  bare?: boolean;
+}
+
+/**
+ * Tool output shown according to its sniffed content type (JSON tree, rendered Markdown, sanitized
+ * HTML preview or text), switchable to the raw text. Long output is cut to a preview that can be
+ * extended step by step. While the find bar has matches here, the raw text is shown highlighted.
+ */
+const SmartOutput: React.FC<Props> = ({ node, result, bare = false }) => {
+  const { locale, t } = useI18n();
+  const highlight = useFieldHighlight(node.id, 'toolResult');
+  const [selectedFormat, setSelectedFormat] = useState<OutputFormat | null>(null);
+  const [limit, setLimit] = useState(PREVIEW_LENGTH);
+
+  const detected = useMemo((): { format: OutputFormat; json?: unknown } => {
+    const format = sniffOutputFormat(result);
+    if (format !== 'json') return { format };
+    const json = parseJsonOutput(result);
+    return json === undefined ? { format: 'text' } : { format, json };
+  }, [result]);
+
+  const matchStarts = useMemo(() => findOccurrences(result, highlight.query), [result, highlight.query]);
+  const format = matchStarts.length > 0 ? 'text' : (selectedFormat || detected.format);
+
+  // Extend the preview so the current find-bar match is visible
+  const activeStart = matchStarts[highlight.activeOccurrence];
+  const visibleLength = activeStart === undefined ? limit : Math.max(limit, activeStart + MATCH_CONTEXT_LENGTH);
+  const isTruncated = format !== 'json' && result.length > visibleLength;
+  const visibleText = isTruncated ? result.slice(0, visibleLength) : result;
+
+  const formats: OutputFormat[] = detected.format === 'text' ? [] : [detected.format, 'text'];
+  const tabClass = (active: boolean) =>
+    `px-1.5 py-0.5 rounded transition-colors ${active ? 'bg-slate-700/70 text-slate-200' : 'text-slate-500 hover:text-slate-300'}`;
+
+  return (
+    <div className={bare ? '' : 'rounded border border-green-500/10 bg-slate-900/50 overflow-hidden'}>
+      {formats.length > 0 && (
+        <div className="flex items-center gap-1 px-1.5 py-1 border-b border-green-500/10 text-[10px]">
+          {formats.map(option => (
+            <button
+              key={option}
+              className={tabClass(option === format)}
+              disabled={matchStarts.length > 0}
+              onClick={() => setSelectedFormat(option)}
+            >
+              {t(FORMAT_LABELS[option])}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {format === 'json' && (
+        <div className="p-2 max-h-80 overflow-auto custom-scrollbar">
+          <JsonTree value={detected.json} />
+        </div>
+      )}
+      {format === 'markdown' && (
+        <div className="px-3 py-2 text-sm text-slate-200 max-h-96 overflow-y-auto custom-scrollbar break-words">
+          <MarkdownViewer value={visibleText} plugins={markdownPlugins} />
+        </div>
+      )}
+      {format === 'html' && <HtmlPreview html={visibleText} title={t('output.htmlPreview')} />}
+      {format === 'text' && (
+        <div className="p-2 font-mono text-xs text-green-200/70 whitespace-pre-wrap break-words max-h-60 overflow-y-auto custom-scrollbar">
+          <HighlightedText text={visibleText} {...highlight} />
+        </div>
+      )}
+
+      {isTruncated && (
+        <div className="flex items-center gap-3 px-2 py-1 border-t border-green-500/10 text-[10px] text-slate-500">
+          <span>
+            {t('output.truncated', { shown: formatNumber(locale, visibleLength), total: formatNumber(locale, result.length) })}
+          </span>
+          <button className="text-blue-400 hover:text-blue-300" onClick={() => setLimit(visibleLength + EXPAND_STEP)}>
+            {t('output.showMore')}
+          </button>
+          <button className="text-blue-400 hover:text-blue-300" onClick={() => setLimit(result.length)}>
+            {t('output.showAll')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SmartOutput;
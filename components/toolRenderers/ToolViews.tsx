@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import { findOccurrences, getDisplayedToolArgs } from '../../state/treeSearch';
+import { useFieldHighlight } from '../../state/treeSearchContext';
+import HighlightedText from '../HighlightedText';
+import SmartOutput from './SmartOutput';
+import { ToolInputProps, ToolOutputProps, ToolRenderer } from './registry';
+
+/**
+ * The default tool input: arguments pretty-printed as JSON (raw text while incomplete).
+ * Custom renderers can fall back to it when the arguments don't have the shape they expect.
+ */
+export const DefaultToolInput: React.FC<ToolInputProps> = ({ node }) => {
+  const highlight = useFieldHighlight(node.id, 'toolArgs');
+  const text = useMemo(() => getDisplayedToolArgs(node), [node.role, node.toolArgs]);
+
+  return (
+    <div className="bg-slate-950/50 rounded p-2 font-mono text-xs text-orange-200/80 overflow-x-auto border border-orange-500/10">
+      <pre><HighlightedText text={text} {...highlight} /></pre>
+    </div>
+  );
+};
+
+/**
+ * The default tool output, rendered by sniffed content type (see SmartOutput).
+ */
+export const DefaultToolOutput: React.FC<ToolOutputProps> = ({ node, result }) => <SmartOutput node={node} result={result} />;
+
+// Find-bar matches are counted on the raw text, so a field containing matches is shown raw
+// while the find bar is open; otherwise a custom view could hide the highlighted match
+const hasMatches = (text: string, query: string) => !!query && findOccurrences(text, query).length > 0;
+
+export const ToolInputView: React.FC<ToolInputProps & { renderer?: ToolRenderer }> = ({ renderer, ...props }) => {
+  const { query } = useFieldHighlight(props.node.id, 'toolArgs');
+  const Input = renderer?.Input;
+  if (Input && !hasMatches(getDisplayedToolArgs(props.node), query)) return <Input {...props} />;
+  return <DefaultToolInput {...props} />;
+};
+
+export const ToolOutputView: React.FC<ToolOutputProps & { renderer?: ToolRenderer }> = ({ renderer, ...props }) => {
+  const { query } = useFieldHighlight(props.node.id, 'toolResult');
+  const Output = renderer?.Output;
+  if (Output && !hasMatches(props.result, query)) return <Output {...props} />;
+  return <DefaultToolOutput {...props} />;
+};
+
+/**
+ * The remaining scalar arguments as `name: value` chips, for views that feature one argument.
+ */
+export const ToolArgChips: React.FC<{ args: any; exclude: string[] }> = ({ args, exclude }) => {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) return null;
+  const entries = Object.entries(args).filter(([key, value]) =>
+    !exclude.includes(key) && ['string', 'number', 'boolean'].includes(typeof value)
+  );
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1.5">
+      {entries.map(([key, value]) => (
+        <span key={key} className="px-1.5 py-0.5 rounded bg-slate-900 border border-slate-700/50 font-mono text-[10px] text-slate-500">
+          {key}: <span className="text-slate-300">{String(value)}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
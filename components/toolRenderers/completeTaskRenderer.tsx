@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { extractCitations } from '../../utils/sources';
+import { getReportTitle } from '../../utils/reportExport';
+import { useI18n } from '../../i18n/useI18n';
+import { ToolInputProps, ToolRenderer } from './registry';
+import { DefaultToolInput } from './ToolViews';
+
+const EXCERPT_LENGTH = 280;
+
+// The first paragraph of prose (skipping headings), without source tags
+const getExcerpt = (report: string) => {
+  const paragraph = report
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .find(block => block && !block.startsWith('#'));
+  if (!paragraph) return '';
+  const text = paragraph.replace(/\s*(?:<source:\s*[^>]+>|<source>.*?<\/source>)/gi, '').replace(/\s+/g, ' ');
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+};
+
+/**
+ * `complete_task` as a summary of the report it hands in: title, excerpt, length and cited sources.
+ */
+const CompleteTaskInput: React.FC<ToolInputProps> = (props) => {
+  const { t } = useI18n();
+  const { node, args } = props;
+  const report: string | undefined = typeof args?.report === 'string' ? args.report : undefined;
+  const summary = useMemo(() => report && ({
+    title: getReportTitle(report),
+    excerpt: getExcerpt(report),
+    sourceCount: extractCitations(report).citations.length,
+  }), [report]);
+  if (!report || !summary) return <DefaultToolInput {...props} />;
+
+  return (
+    <div className="rounded border border-green-500/20 bg-green-900/10 px-3 py-2">
+      <div className="flex items-center gap-2 text-xs font-semibold text-green-100">
+        <CheckCircle2 size={14} className="text-green-400 shrink-0" />
+        <span className="truncate">{summary.title}</span>
+      </div>
+      {summary.excerpt && <p className="mt-1.5 text-xs text-slate-300/80 leading-relaxed">{summary.excerpt}</p>}
+      <div className="mt-2 flex flex-wrap gap-x-3 text-[10px] text-slate-500">
+        <span>{t('tool.completeTask.characters', { count: report.length })}</span>
+        <span>{t('tool.completeTask.sources', { count: summary.sourceCount })}</span>
+        {node.isFinal && <span className="text-green-500/70">{t('tool.completeTask.reportBelow')}</span>}
+      </div>
+    </div>
+  );
+};
+
+export const completeTaskRenderer: ToolRenderer = {
+  icon: <CheckCircle2 className="w-4 h-4 text-green-400" />,
+  Input: CompleteTaskInput,
+};
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { ExternalLink, Globe } from 'lucide-react';
+import { getDomain, pickString, plainTextTitle, tryParseJson } from '../../utils/sources';
+import { useI18n } from '../../i18n/useI18n';
+import { ToolInputProps, ToolOutputProps, ToolRenderer } from './registry';
+import { DefaultToolInput, DefaultToolOutput, ToolArgChips } from './ToolViews';
+import SmartOutput from './SmartOutput';
+
+const URL_KEYS = ['url', 'link', 'href', 'uri'];
+const TEXT_KEYS = ['content', 'text', 'markdown', 'body', 'extracted_text'];
+
+const getArgUrl = (args: any) =>
+  args && typeof args === 'object' && !Array.isArray(args) ? pickString(args, URL_KEYS) : undefined;
+
+const FetchInput: React.FC<ToolInputProps> = (props) => {
+  const url = getArgUrl(props.args);
+  if (!url) return <DefaultToolInput {...props} />;
+
+  return (
+    <div>
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 bg-slate-950/50 rounded px-2.5 py-1.5 border border-orange-500/10 text-xs text-blue-300 hover:text-blue-200"
+      >
+        <Globe size={14} className="text-blue-400/70 shrink-0" />
+        <span className="font-mono truncate">{url}</span>
+        <ExternalLink size={10} className="shrink-0 opacity-60" />
+      </a>
+      <ToolArgChips args={props.args} exclude={URL_KEYS} />
+    </div>
+  );
+};
+
+// Title, URL and text of the page, from a JSON result or a plain-text one
+const parsePage = (result: string, argUrl: string | undefined) => {
+  const parsed = tryParseJson(result);
+  if (parsed === undefined) {
+    return { url: argUrl, title: plainTextTitle(result), text: result.trim() };
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  const obj = parsed as Record<string, unknown>;
+  const text = pickString(obj, TEXT_KEYS);
+  if (!text) return null;
+  return { url: pickString(obj, URL_KEYS) || argUrl, title: pickString(obj, ['title', 'page_title']) || plainTextTitle(text), text };
+};
+
+/**
+ * A fetched page as a card: title, URL and the extracted text.
+ */
+const FetchOutput: React.FC<ToolOutputProps> = (props) => {
+  const { t } = useI18n();
+  const page = useMemo(() => parsePage(props.result, getArgUrl(props.args)), [props.result, props.args]);
+  if (!page) return <DefaultToolOutput {...props} />;
+
+  return (
+    <div className="rounded border border-green-500/10 bg-slate-900/50 overflow-hidden">
+      <div className="px-2.5 py-2 border-b border-green-500/10 bg-slate-950/30">
+        <div className="text-xs font-semibold text-green-100/90 truncate">
+          {page.title || (page.url ? getDomain(page.url) : t('tool.fetch.untitled'))}
+        </div>
+        {page.url && (
+          <a
+            href={page.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-[10px] font-mono text-slate-500 hover:text-blue-300"
+          >
+            <span className="truncate">{page.url}</span>
+            <ExternalLink size={9} className="shrink-0 opacity-60" />
+          </a>
+        )}
+      </div>
+      <SmartOutput node={props.node} result={page.text} bare />
+      <div className="px-2.5 py-1 text-[10px] text-slate-600 border-t border-green-500/10">
+        {t('tool.fetch.characters', { count: page.text.length })}
+      </div>
+    </div>
+  );
+};
+
+export const fetchRenderer: ToolRenderer = {
+  icon: <Globe className="w-4 h-4 text-blue-400" />,
+  Input: FetchInput,
+  Output: FetchOutput,
+};
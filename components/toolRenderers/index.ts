@@ -0,0 +1,17 @@
+import { registerToolRenderer } from './registry';
+import { searchRenderer } from './searchRenderer';
+import { fetchRenderer } from './fetchRenderer';
+import { completeTaskRenderer } from './completeTaskRenderer';
+
+export type { ToolInputProps, ToolOutputProps, ToolRenderer, ToolMatcher } from './registry';
+export { registerToolRenderer, getToolRenderer } from './registry';
+export { default as BlockActions } from './BlockActions';
+export { default as SmartOutput } from './SmartOutput';
+export { DefaultToolInput, DefaultToolOutput, ToolArgChips, ToolInputView, ToolOutputView } from './ToolViews';
+
+// Built-in renderers. Patterns registered later take precedence, so `*search*` wins over `*fetch*`.
+// Renderers for other tools live in their own modules that call `registerToolRenderer`; import them
+// here, or from anywhere that loads before the tree renders.
+registerToolRenderer(name => name.includes('fetch'), fetchRenderer);
+registerToolRenderer(name => name.includes('search'), searchRenderer);
+registerToolRenderer('complete_task', completeTaskRenderer);
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ResearchNode } from '../../types';
+
+/**
+ * Tool-specific views for tool calls (input) and tool results (output), looked up by tool name.
+ * Tools without a renderer, or without a view for one side, use the JSON / plain-text defaults.
+ */
+
+export interface ToolInputProps {
+  node: ResearchNode;
+  /** The parsed tool arguments; null when they are not valid JSON (yet, while streaming). */
+  args: any;
+}
+
+export interface ToolOutputProps {
+  node: ResearchNode;
+  /** The call's parsed arguments when known (results on a separate `tool` node don't have them). */
+  args: any;
+  result: string;
+}
+
+export interface ToolRenderer {
+  /** Header icon, e.g. `<Search className="w-4 h-4 text-orange-400" />`. */
+  icon?: React.ReactNode;
+  Input?: React.ComponentType<ToolInputProps>;
+  Output?: React.ComponentType<ToolOutputProps>;
+}
+
+/** An exact tool name, a pattern, or a predicate over the tool name. */
+export type ToolMatcher = string | RegExp | ((toolName: string) => boolean);
+
+const exactRenderers = new Map<string, ToolRenderer>();
+let patternRenderers: { test: (toolName: string) => boolean; renderer: ToolRenderer }[] = [];
+
+/**
+ * Registers a renderer for the tools matched by `matcher` and returns a function that removes it.
+ * Exact names win over patterns; among patterns the most recently registered wins, so a renderer
+ * registered after the built-ins overrides them.
+ */
+export const registerToolRenderer = (matcher: ToolMatcher, renderer: ToolRenderer): (() => void) => {
+  if (typeof matcher === 'string') {
+    exactRenderers.set(matcher, renderer);
+    return () => {
+      if (exactRenderers.get(matcher) === renderer) exactRenderers.delete(matcher);
+    };
+  }
+
+  const test = matcher instanceof RegExp ? (toolName: string) => matcher.test(toolName) : matcher;
+  const entry = { test, renderer };
+  patternRenderers = [entry, ...patternRenderers];
+  return () => {
+    patternRenderers = patternRenderers.filter(candidate => candidate !== entry);
+  };
+};
+
+export const getToolRenderer = (toolName: string | undefined): ToolRenderer | undefined => {
+  if (!toolName) return undefined;
+  return exactRenderers.get(toolName) || patternRenderers.find(({ test }) => test(toolName))?.renderer;
+};
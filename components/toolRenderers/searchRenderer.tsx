@@ -0,0 +1,62 @@
+import React, { useMemo } from 'react';
+import { ExternalLink, Search } from 'lucide-react';
+import { getDomain, listResultLinks, pickString, tryParseJson } from '../../utils/sources';
+import { useI18n } from '../../i18n/useI18n';
+import { ToolInputProps, ToolOutputProps, ToolRenderer } from './registry';
+import { DefaultToolInput, DefaultToolOutput, ToolArgChips } from './ToolViews';
+
+const QUERY_KEYS = ['query', 'q', 'search_query', 'keywords', 'keyword'];
+
+const SearchInput: React.FC<ToolInputProps> = (props) => {
+  const { args } = props;
+  const query = args && typeof args === 'object' && !Array.isArray(args) ? pickString(args, QUERY_KEYS) : undefined;
+  if (!query) return <DefaultToolInput {...props} />;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 bg-slate-950/50 rounded px-2.5 py-1.5 border border-orange-500/10 text-orange-100/90 text-sm">
+        <Search size={14} className="text-orange-400/70 shrink-0" />
+        <span className="break-words min-w-0">{query}</span>
+      </div>
+      <ToolArgChips args={args} exclude={QUERY_KEYS} />
+    </div>
+  );
+};
+
+/**
+ * Search results as a list of titled links with their domain and snippet.
+ */
+const SearchOutput: React.FC<ToolOutputProps> = (props) => {
+  const { t } = useI18n();
+  const links = useMemo(() => listResultLinks(tryParseJson(props.result)), [props.result]);
+  if (links.length === 0) return <DefaultToolOutput {...props} />;
+
+  return (
+    <div className="rounded border border-green-500/10 bg-slate-900/50 max-h-60 overflow-y-auto custom-scrollbar">
+      <div className="px-2.5 pt-2 text-[10px] text-slate-500">{t('tool.search.results', { count: links.length })}</div>
+      <ol className="p-1">
+        {links.map(link => (
+          <li key={link.url} className="px-1.5 py-1.5 rounded hover:bg-slate-800/50">
+            <a
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs font-medium text-green-200/90 hover:text-green-100"
+            >
+              <span className="truncate">{link.title || getDomain(link.url)}</span>
+              <ExternalLink size={10} className="shrink-0 opacity-60" />
+            </a>
+            <div className="text-[10px] text-slate-500 font-mono truncate">{getDomain(link.url)}</div>
+            {link.snippet && <p className="mt-0.5 text-xs text-slate-400 line-clamp-2">{link.snippet}</p>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export const searchRenderer: ToolRenderer = {
+  icon: <Search className="w-4 h-4 text-orange-400" />,
+  Input: SearchInput,
+  Output: SearchOutput,
+};
@@ -0,0 +1,230 @@
+/**
+ * English messages. This catalog defines the message keys; every other locale must translate all of them.
+ * `{name}` placeholders are filled in by `t(key, { name })`.
+ */
+const en = {
+  // App
+  'app.title': 'Deep Research Agent',
+  'app.titleShort': 'Agent',
+  'app.empty': 'Ready to start researching',
+  'app.footer': 'AI agent research',
+  'app.status.ready': 'Ready',
+  'app.status.processing': 'Processing...',
+  'app.status.reconnecting': 'Reconnecting...',
+  'app.diagnostics': '{count} chunk(s) could not be parsed',
+  'app.reconnecting': 'Connection lost, reconnecting (attempt {attempt})… The research is still running',
+  'app.error.unknown': 'Unknown error',
+  'app.error.loadConversation': 'Failed to load conversation: {message}',
+  'app.error.importSession': 'Failed to import session: {message}',
+  'app.error.cancel': 'Failed to stop the run on the server: {message}',
+  'app.error.resume': 'Failed to resume the interrupted run: {message}',
+  'input.placeholder.new': 'What would you like to research today? (Ctrl + Enter to send)',
+  'input.placeholder.followUp': 'Ask a follow-up... (Ctrl + Enter to send)',
+  'input.placeholder.readOnly': 'Imported sessions are read-only; start a new chat to keep researching',
+
+  // Header actions
+  'header.find': 'Find',
+  'header.findTitle': 'Find in the research tree (Ctrl + F)',
+  'header.import': 'Import',
+  'header.importTitle': 'Import a session from a JSON file (read-only)',
+  'header.export': 'Export session',
+  'header.exportTitle': 'Export the current session as a JSON file',
+  'header.replay': 'Replay',
+  'header.replayTitle': 'Replay the research in the order the data arrived',
+  'header.metrics': 'Metrics',
+  'header.metricsTitle': 'Timing and throughput of the run',
+  'header.language': 'Language',
+
+  // Imported session banner
+  'session.readOnly': 'Read-only session (imported from file):',
+  'session.exportedAt': 'exported {date}',
+  'session.close': 'Close',
+  'session.defaultTitle': 'Research session',
+  'session.error.invalidJson': 'The file is not valid JSON',
+  'session.error.notBundle': 'The file is not an exported research session',
+  'session.error.noVersion': 'The session file has no version information',
+  'session.error.newerVersion': 'The session file version (v{version}) is newer than supported (v{supported}); please upgrade before importing',
+  'session.error.noMigration': 'Session files of version v{version} can\'t be upgraded',
+  'session.error.empty': 'The session file contains no nodes',
+
+  // Research tree
+  'node.role.assistant': 'Agent',
+  'node.role.human': 'User',
+  'node.role.toolCall': 'Tool call',
+  'node.role.tool': 'Tool result',
+  'node.role.system': 'System',
+  'node.role.error': 'Error',
+  'node.cancelled': 'Cancelled',
+  'node.interrupted': 'Interrupted',
+  'node.you': 'You',
+  'node.unknownAgent': 'Unknown agent',
+  'node.input': 'Input',
+  'node.output': 'Output',
+  'node.runningTool': 'Running tool...',
+  'node.thinking': 'Thinking...',
+  'tool.search.results': '{count} result(s)',
+  'tool.fetch.untitled': 'Fetched page',
+  'tool.fetch.characters': '{count} characters',
+  'tool.completeTask.characters': '{count} characters',
+  'tool.completeTask.sources': '{count} source(s) cited',
+  'tool.completeTask.reportBelow': 'Full report below',
+  'output.format.json': 'JSON',
+  'output.format.markdown': 'Markdown',
+  'output.format.html': 'HTML',
+  'output.format.text': 'Raw',
+  'output.htmlPreview': 'HTML preview',
+  'output.copy': 'Copy',
+  'output.copied': 'Copied',
+  'output.download': 'Download',
+  'output.truncated': 'Showing {shown} of {total} characters',
+  'output.showMore': 'Show more',
+  'output.showAll': 'Show all',
+  'output.json.items': '{count} item(s)',
+  'output.json.keys': '{count} key(s)',
+  'output.json.showMore': 'Show {count} more ({total} hidden)',
+  'view.tree': 'Tree',
+  'view.treeTitle': 'Show the research as cards',
+  'view.graph': 'Graph',
+  'view.graphTitle': 'Show the research as a node-link graph',
+  'view.timeline': 'Timeline',
+  'view.timelineTitle': 'Show when each agent and tool call ran',
+  'zoom.in': 'Zoom in',
+  'zoom.out': 'Zoom out',
+  'zoom.fit': 'Fit to view',
+  'graph.streaming': 'Streaming',
+  'details.title': 'Node details',
+  'details.showInTree': 'Show in tree',
+  'details.close': 'Close',
+  'timing.firstChunk': 'First chunk: {time}',
+  'timing.lastChunk': 'Last chunk: {time}',
+  'timing.completed': 'Completed: {time}',
+  'timing.chunks': '{count} chunks',
+  'timing.toolLatency': 'Tool latency: {duration}',
+  'metrics.title': 'Run summary',
+  'metrics.noTiming': 'Loaded from history: arrival times are not stored, so only counts are available.',
+  'metrics.close': 'Close',
+  'metrics.wallTime': 'Wall time',
+  'metrics.nodes': 'Nodes',
+  'metrics.toolCalls': '{count} tool calls',
+  'metrics.chunks': 'Chunks',
+  'metrics.characters': '{count} characters',
+  'metrics.throughput': 'Throughput',
+  'metrics.chunksPerSecond': '{value} chunks/s',
+  'metrics.charsPerSecond': '{value} chars/s',
+  'metrics.toolLatency': 'Tool latency',
+  'metrics.tool': 'Tool',
+  'metrics.calls': 'Calls',
+  'metrics.max': 'Max',
+  'metrics.slowestBranches': 'Slowest branches',
+  'metrics.revealBranch': 'Show this agent',
+  'metrics.none': 'None yet',
+  'timeline.run': 'Run',
+  'timeline.noTiming': 'No timing for this conversation: it was loaded from history, which doesn\'t store arrival times.',
+  'followUp.action': 'Follow up from here',
+  'followUp.short': 'Follow up',
+  'followUp.anchor': 'Following up on {label}',
+  'followUp.locate': 'Show this node',
+  'followUp.fork': 'Fork',
+  'followUp.forkTitle': 'Ask in a new conversation branched from this one',
+  'followUp.cancel': 'Cancel follow-up',
+  'followUp.reference': 'On {label}',
+  'followUp.prompt.original': 'Original question:',
+  'followUp.prompt.regarding': 'Regarding {label}:',
+  'attempts.edit': 'Edit & rerun',
+  'attempts.regenerate': 'Regenerate',
+  'attempts.rerun': 'Rerun',
+  'attempts.cancel': 'Cancel',
+  'attempts.title': 'Attempts of this prompt',
+  'attempts.position': '{index}/{count}',
+  'attempts.previous': 'Previous attempt',
+  'attempts.next': 'Next attempt',
+  'interrupted.message': 'The last run of this conversation was interrupted before it finished.',
+  'interrupted.resuming': 'Resuming the interrupted run…',
+  'interrupted.resume': 'Resume',
+  'interrupted.stopResuming': 'Stop resuming',
+  'interrupted.stopResumingTitle': 'Stop following the run and keep the conversation open',
+  'interrupted.discard': 'Discard',
+  'interrupted.discardTitle': 'Cancel the interrupted run on the server',
+  'interrupted.autoResume': 'Auto-resume',
+  'interrupted.autoResumeTitle': 'Resume interrupted runs as soon as their conversation is opened',
+  'tree.unattached': 'Unattached nodes',
+  'tree.unattachedHint': '({count}) — their parent never appeared in the stream',
+
+  // Final report
+  'report.title': 'Final Research Report',
+  'report.footer': 'End of transmission',
+  'report.defaultTitle': 'Research report',
+  'report.export': 'Export',
+  'report.exportHtml': 'HTML page (.html)',
+  'report.print': 'Print / Save as PDF',
+  'report.references': 'References',
+  'report.locate': 'Locate',
+  'report.locateTitle': 'Show the tool call that retrieved this source in the research tree',
+
+  // Find bar
+  'find.placeholder': 'Find in the research tree (content, tool input and output)',
+  'find.noResults': 'No results',
+  'find.previous': 'Previous (Shift + Enter)',
+  'find.next': 'Next (Enter)',
+  'find.close': 'Close (Esc)',
+
+  // Replay
+  'replay.toStart': 'Back to start',
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.speed': 'Playback speed',
+  'replay.progress': 'Replay progress',
+  'replay.live': 'Live',
+  'replay.liveTitle': 'Back to the current state',
+  'replay.close': 'Exit replay',
+
+  // Sidebar
+  'sidebar.title': 'History',
+  'sidebar.newChat': 'New research',
+  'sidebar.search': 'Search conversations',
+  'sidebar.dateFilter': 'Filter by date',
+  'sidebar.dateTo': 'to',
+  'sidebar.noMatches': 'No matching conversations.',
+  'sidebar.clearFilters': 'Clear filters',
+  'sidebar.empty': 'No history yet.',
+  'sidebar.untitled': 'Untitled research',
+  'sidebar.status.interrupted': 'Interrupted',
+  'sidebar.status.interruptedTitle': 'The latest run was interrupted before it finished',
+  'sidebar.status.cancelled': 'Cancelled',
+  'sidebar.status.cancelledTitle': 'The latest run was cancelled',
+  'sidebar.forkedFrom': 'Branched from {title}',
+  'sidebar.forkedFromUnknown': 'Branched from another conversation',
+  'sidebar.forkedFromNode': 'Follow-up on {node}',
+  'sidebar.rename': 'Rename',
+  'sidebar.delete': 'Delete',
+  'sidebar.confirmDelete': 'Delete this conversation?',
+  'sidebar.renameFailed': 'Failed to rename the conversation',
+  'sidebar.group.today': 'Today',
+  'sidebar.group.yesterday': 'Yesterday',
+  'sidebar.group.previous7Days': 'Previous 7 days',
+  'sidebar.group.older': 'Older',
+  'sidebar.stubIdentity': 'Local development identity',
+  'sidebar.signOut': 'Sign out',
+  'sidebar.confirmSignOut': 'Sign out?',
+
+  // Sign-in
+  'auth.signInTitle': 'Sign in to Deep Research Agent',
+  'auth.signInHint': 'After signing in you only see your own research',
+  'auth.expiredTitle': 'Session expired',
+  'auth.expiredHint': 'Sign in again to continue; this page stays as it is',
+  'auth.username': 'User name',
+  'auth.password': 'Password',
+  'auth.passwordOptional': 'Password (optional in development mode)',
+  'auth.signIn': 'Sign in',
+  'auth.signOut': 'Sign out',
+  'auth.stubNotice': 'Development mode (local identity): any user name signs in and passwords are not checked. Set VITE_AUTH_PROVIDER=http to sign in through the server.',
+  'auth.error.failed': 'Sign-in failed',
+  'auth.error.usernameRequired': 'Please enter a user name',
+  'auth.error.invalidCredentials': 'Wrong user name or password',
+  'auth.error.expired': 'Your session has expired, please sign in again',
+  'auth.error.signedOut': 'Not signed in',
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
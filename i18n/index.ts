@@ -0,0 +1,113 @@
+import en, { MessageKey } from './en';
+import zh from './zh';
+
+export type { MessageKey } from './en';
+
+export type Locale = 'en' | 'zh';
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'zh', label: '中文' },
+];
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { en, zh };
+
+// BCP 47 tags handed to Intl for dates and numbers
+const INTL_LOCALES: Record<Locale, string> = { en: 'en-US', zh: 'zh-CN' };
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface LocaleStore {
+  getLocale(): Locale;
+  setLocale(locale: Locale): void;
+  subscribe(listener: () => void): () => void;
+}
+
+const STORAGE_KEY = 'deep-research.locale';
+
+const isLocale = (value: unknown): value is Locale => value === 'en' || value === 'zh';
+
+// Stored choice first, then the browser language; anything not Chinese falls back to English
+const detectLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch (e) {
+    // Storage unavailable: fall through to the browser language
+  }
+  const language = typeof navigator !== 'undefined' ? navigator.language : '';
+  return language.toLowerCase().startsWith('zh') ? 'zh' : 'en';
+};
+
+const applyDocumentLanguage = (locale: Locale) => {
+  if (typeof document !== 'undefined') document.documentElement.lang = INTL_LOCALES[locale];
+};
+
+/**
+ * Holds the UI language, persisted per browser in localStorage, and notifies subscribers on changes.
+ */
+export const createLocaleStore = (initial: Locale = detectLocale()): LocaleStore => {
+  let locale = initial;
+  const listeners = new Set<() => void>();
+  applyDocumentLanguage(locale);
+
+  return {
+    getLocale: () => locale,
+
+    setLocale(next) {
+      if (next === locale) return;
+      locale = next;
+      try {
+        localStorage.setItem(STORAGE_KEY, next);
+      } catch (e) {
+        // Storage unavailable (private mode): the choice lasts for this page only
+      }
+      applyDocumentLanguage(next);
+      listeners.forEach(listener => listener());
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const localeStore = createLocaleStore();
+
+/**
+ * Looks up `key` in the locale's catalog (English when missing) and fills in `{name}` placeholders.
+ */
+export const translateFor = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message = catalogs[locale][key] ?? en[key] ?? key;
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+};
+
+/**
+ * Translates in the current locale. For code outside React (services, exports); components use `useI18n`.
+ */
+export const t: Translate = (key, params) => translateFor(localeStore.getLocale(), key, params);
+
+/**
+ * Formats a number with the locale's digit grouping.
+ */
+export const formatNumber = (locale: Locale, value: number): string =>
+  new Intl.NumberFormat(INTL_LOCALES[locale]).format(value);
+
+/**
+ * Formats an epoch-ms or date-string timestamp in the locale's conventions; '' for invalid input.
+ */
+export const formatDateTime = (
+  locale: Locale,
+  value: number | string | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], options).format(date);
+};
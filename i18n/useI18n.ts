@@ -0,0 +1,17 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Locale, LocaleStore, Translate, localeStore, translateFor } from './index';
+
+export interface I18n {
+  locale: Locale;
+  setLocale(locale: Locale): void;
+  t: Translate;
+}
+
+/**
+ * The current UI language and a translator bound to it; re-renders when the language changes.
+ */
+export const useI18n = (store: LocaleStore = localeStore): I18n => {
+  const locale = useSyncExternalStore(store.subscribe, store.getLocale);
+  const t = useCallback<Translate>((key, params) => translateFor(locale, key, params), [locale]);
+  return { locale, setLocale: store.setLocale, t };
+};
@@ -0,0 +1,229 @@
+import { MessageKey } from './en';
+
+/**
+ * Chinese (Simplified) messages.
+ */
+const zh: Record<MessageKey, string> = {
+  // App
+  'app.title': '深度研究智能体',
+  'app.titleShort': '智能体',
+  'app.empty': '准备开始研究',
+  'app.footer': 'AI 智能体研究',
+  'app.status.ready': '就绪',
+  'app.status.processing': '处理中...',
+  'app.status.reconnecting': '重新连接中...',
+  'app.diagnostics': '{count} 个数据块解析失败',
+  'app.reconnecting': '连接已中断，正在重新连接（第 {attempt} 次）… 研究仍在进行中',
+  'app.error.unknown': '未知错误',
+  'app.error.loadConversation': '加载对话失败: {message}',
+  'app.error.importSession': '导入会话失败: {message}',
+  'app.error.cancel': '无法在服务器上停止运行: {message}',
+  'app.error.resume': '恢复中断的运行失败: {message}',
+  'input.placeholder.new': '今天想研究什么？ (Ctrl + Enter 发送)',
+  'input.placeholder.followUp': '请输入追问... (Ctrl + Enter 发送)',
+  'input.placeholder.readOnly': '导入的会话为只读，新建对话以继续研究',
+
+  // Header actions
+  'header.find': '查找',
+  'header.findTitle': '在研究树中查找 (Ctrl + F)',
+  'header.import': '导入',
+  'header.importTitle': '从 JSON 文件导入会话（只读）',
+  'header.export': '导出会话',
+  'header.exportTitle': '将当前会话导出为 JSON 文件',
+  'header.replay': '回放',
+  'header.replayTitle': '按数据到达顺序回放研究过程',
+  'header.metrics': '指标',
+  'header.metricsTitle': '本次运行的耗时与吞吐量',
+  'header.language': '语言',
+
+  // Imported session banner
+  'session.readOnly': '只读会话（从文件导入）：',
+  'session.exportedAt': '导出于 {date}',
+  'session.close': '关闭',
+  'session.defaultTitle': '研究会话',
+  'session.error.invalidJson': '文件不是有效的 JSON',
+  'session.error.notBundle': '文件不是研究会话导出文件',
+  'session.error.noVersion': '会话文件缺少版本信息',
+  'session.error.newerVersion': '会话文件版本 (v{version}) 高于当前支持的版本 (v{supported})，请升级后再导入',
+  'session.error.noMigration': '无法升级 v{version} 版本的会话文件',
+  'session.error.empty': '会话文件中没有任何节点',
+
+  // Research tree
+  'node.role.assistant': '智能体',
+  'node.role.human': '用户',
+  'node.role.toolCall': '工具调用',
+  'node.role.tool': '工具结果',
+  'node.role.system': '系统',
+  'node.role.error': '错误',
+  'node.cancelled': '已取消',
+  'node.interrupted': '已中断',
+  'node.you': '你',
+  'node.unknownAgent': '未知智能体',
+  'node.input': '输入',
+  'node.output': '输出',
+  'node.runningTool': '正在执行工具...',
+  'node.thinking': '思考中...',
+  'tool.search.results': '{count} 条结果',
+  'tool.fetch.untitled': '已获取的网页',
+  'tool.fetch.characters': '{count} 个字符',
+  'tool.completeTask.characters': '{count} 个字符',
+  'tool.completeTask.sources': '引用 {count} 个来源',
+  'tool.completeTask.reportBelow': '完整报告见下方',
+  'output.format.json': 'JSON',
+  'output.format.markdown': 'Markdown',
+  'output.format.html': 'HTML',
+  'output.format.text': '原始文本',
+  'output.htmlPreview': 'HTML 预览',
+  'output.copy': '复制',
+  'output.copied': '已复制',
+  'output.download': '下载',
+  'output.truncated': '已显示 {shown} / {total} 个字符',
+  'output.showMore': '显示更多',
+  'output.showAll': '全部显示',
+  'output.json.items': '{count} 项',
+  'output.json.keys': '{count} 个键',
+  'output.json.showMore': '再显示 {count} 项（剩余 {total} 项）',
+  'view.tree': '树形',
+  'view.treeTitle': '以卡片形式显示研究过程',
+  'view.graph': '图谱',
+  'view.graphTitle': '以节点连线图显示研究过程',
+  'view.timeline': '时间线',
+  'view.timelineTitle': '显示各智能体与工具调用的运行时间',
+  'zoom.in': '放大',
+  'zoom.out': '缩小',
+  'zoom.fit': '适应窗口',
+  'graph.streaming': '生成中',
+  'details.title': '节点详情',
+  'details.showInTree': '在树中查看',
+  'details.close': '关闭',
+  'timing.firstChunk': '首个数据块：{time}',
+  'timing.lastChunk': '最后数据块：{time}',
+  'timing.completed': '完成：{time}',
+  'timing.chunks': '{count} 个数据块',
+  'timing.toolLatency': '工具耗时：{duration}',
+  'metrics.title': '运行概览',
+  'metrics.noTiming': '从历史记录加载：未保存到达时间，仅提供计数。',
+  'metrics.close': '关闭',
+  'metrics.wallTime': '总耗时',
+  'metrics.nodes': '节点',
+  'metrics.toolCalls': '{count} 次工具调用',
+  'metrics.chunks': '数据块',
+  'metrics.characters': '{count} 个字符',
+  'metrics.throughput': '吞吐量',
+  'metrics.chunksPerSecond': '{value} 块/秒',
+  'metrics.charsPerSecond': '{value} 字符/秒',
+  'metrics.toolLatency': '工具耗时',
+  'metrics.tool': '工具',
+  'metrics.calls': '调用',
+  'metrics.max': '最大',
+  'metrics.slowestBranches': '最慢分支',
+  'metrics.revealBranch': '查看该智能体',
+  'metrics.none': '暂无',
+  'timeline.run': '运行',
+  'timeline.noTiming': '此对话没有计时数据：它从历史记录加载，历史记录不保存到达时间。',
+  'followUp.action': '从此处追问',
+  'followUp.short': '追问',
+  'followUp.anchor': '追问：{label}',
+  'followUp.locate': '查看该节点',
+  'followUp.fork': '分叉',
+  'followUp.forkTitle': '在从本对话分出的新对话中提问',
+  'followUp.cancel': '取消追问',
+  'followUp.reference': '关于：{label}',
+  'followUp.prompt.original': '原始问题：',
+  'followUp.prompt.regarding': '关于 {label}：',
+  'attempts.edit': '编辑并重新运行',
+  'attempts.regenerate': '重新生成',
+  'attempts.rerun': '重新运行',
+  'attempts.cancel': '取消',
+  'attempts.title': '此提问的多次尝试',
+  'attempts.position': '{index}/{count}',
+  'attempts.previous': '上一次尝试',
+  'attempts.next': '下一次尝试',
+  'interrupted.message': '此对话的上一次运行在完成前中断了。',
+  'interrupted.resuming': '正在恢复中断的运行…',
+  'interrupted.resume': '恢复',
+  'interrupted.stopResuming': '停止恢复',
+  'interrupted.stopResumingTitle': '停止跟随运行，保留当前对话',
+  'interrupted.discard': '放弃',
+  'interrupted.discardTitle': '在服务器上取消中断的运行',
+  'interrupted.autoResume': '自动恢复',
+  'interrupted.autoResumeTitle': '打开对话时立即恢复中断的运行',
+  'tree.unattached': '未关联节点',
+  'tree.unattachedHint': '({count}) — 父节点未出现在数据流中',
+
+  // Final report
+  'report.title': '最终研究报告',
+  'report.footer': '传输结束',
+  'report.defaultTitle': '研究报告',
+  'report.export': '导出',
+  'report.exportHtml': 'HTML 网页 (.html)',
+  'report.print': '打印 / 另存为 PDF',
+  'report.references': '参考资料',
+  'report.locate': '定位',
+  'report.locateTitle': '在研究树中定位获取该来源的工具调用',
+
+  // Find bar
+  'find.placeholder': '在研究树中查找（内容、工具输入与输出）',
+  'find.noResults': '无结果',
+  'find.previous': '上一个 (Shift + Enter)',
+  'find.next': '下一个 (Enter)',
+  'find.close': '关闭 (Esc)',
+
+  // Replay
+  'replay.toStart': '回到开始',
+  'replay.play': '播放',
+  'replay.pause': '暂停',
+  'replay.speed': '播放速度',
+  'replay.progress': '回放进度',
+  'replay.live': '实时',
+  'replay.liveTitle': '回到当前状态',
+  'replay.close': '退出回放',
+
+  // Sidebar
+  'sidebar.title': '历史记录',
+  'sidebar.newChat': '新建研究',
+  'sidebar.search': '搜索对话',
+  'sidebar.dateFilter': '按日期筛选',
+  'sidebar.dateTo': '至',
+  'sidebar.noMatches': '没有匹配的对话。',
+  'sidebar.clearFilters': '清除筛选',
+  'sidebar.empty': '暂无历史记录。',
+  'sidebar.untitled': '未命名研究',
+  'sidebar.status.interrupted': '已中断',
+  'sidebar.status.interruptedTitle': '最近一次运行在完成前中断了',
+  'sidebar.status.cancelled': '已取消',
+  'sidebar.status.cancelledTitle': '最近一次运行已被取消',
+  'sidebar.forkedFrom': '分叉自 {title}',
+  'sidebar.forkedFromUnknown': '分叉自其他对话',
+  'sidebar.forkedFromNode': '追问自 {node}',
+  'sidebar.rename': '重命名',
+  'sidebar.delete': '删除',
+  'sidebar.confirmDelete': '确认删除此对话？',
+  'sidebar.renameFailed': '重命名对话失败',
+  'sidebar.group.today': '今天',
+  'sidebar.group.yesterday': '昨天',
+  'sidebar.group.previous7Days': '过去 7 天',
+  'sidebar.group.older': '更早',
+  'sidebar.stubIdentity': '本地开发身份',
+  'sidebar.signOut': '退出登录',
+  'sidebar.confirmSignOut': '确认退出登录？',
+
+  // Sign-in
+  'auth.signInTitle': '登录深度研究智能体',
+  'auth.signInHint': '登录后仅显示你自己的研究记录',
+  'auth.expiredTitle': '登录已过期',
+  'auth.expiredHint': '请重新登录以继续，当前页面内容会保留',
+  'auth.username': '用户名',
+  'auth.password': '密码',
+  'auth.passwordOptional': '密码（开发模式下可留空）',
+  'auth.signIn': '登录',
+  'auth.signOut': '退出登录',
+  'auth.stubNotice': '开发模式（本地身份）：任意用户名即可登录，不校验密码。通过 VITE_AUTH_PROVIDER=http 启用服务端登录。',
+  'auth.error.failed': '登录失败',
+  'auth.error.usernameRequired': '请输入用户名',
+  'auth.error.invalidCredentials': '用户名或密码错误',
+  'auth.error.expired': '登录已过期，请重新登录',
+  'auth.error.signedOut': '未登录',
+};
+
+export default zh;
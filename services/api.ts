@@ -1,24 +1,40 @@
-import { ChatDTO, ThreadingDTO, ChunkMessage, PaginationResponse, ConversionVO, MessageEntity } from '../types';
+import { CancelDTO, ChatDTO, ChunkMessage, PaginationResponse, ConversionVO, HistoryFilter, MessageEntity, ThreadingEvent, StreamDiagnostic, StreamConnectionStatus, MessageType, Role } from '../types';
+import { BASE_URL } from './config';
+import { authFetch, authStore, isUnauthorizedError } from './auth';
+import { ThreadingTransport, getThreadingTransport, isClientError } from './transport';
 
-// Use environment variable for API URL with a fallback to localhost
-// Remove trailing slash if present to prevent double slashes in requests
-const BASE_URL = ((import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:8000').replace(/\/$/, '');
-const DEFAULT_USER_ID = 'admin';
+export interface CompletionOptions {
+  /** Node the prompt follows up on. */
+  anchorNodeId?: string;
+  /** Conversation a new conversation (`conversionUuid` null) is forked from. */
+  forkedFrom?: string;
+  /** Message whose prompt this one re-sends (edit & rerun, regenerate). */
+  alternativeOf?: string;
+}
 
 /**
  * Initiates the chat.
  * @param prompt The user message.
  * @param conversionUuid The conversation ID if continuing a chat, or null for a new one.
+ * @param options Anchor and fork origin of a follow-up, and the message a re-sent prompt replaces;
+ *   backends that don't know them ignore them.
  * @returns Object containing messageUuid and the (potentially new) conversionUuid.
  */
-export const fetchCompletion = async (prompt: string, conversionUuid: string | null): Promise<{ messageUuid: string; conversionUuid: string }> => {
+export const fetchCompletion = async (
+  prompt: string,
+  conversionUuid: string | null,
+  { anchorNodeId, forkedFrom, alternativeOf }: CompletionOptions = {}
+): Promise<{ messageUuid: string; conversionUuid: string }> => {
   const payload: ChatDTO = {
     prompt,
-    user_id: DEFAULT_USER_ID,
+    user_id: authStore.requireSession().userId,
     conversion_uuid: conversionUuid,
   };
+  if (anchorNodeId) payload.anchor_node_id = anchorNodeId;
+  if (forkedFrom) payload.forked_from = forkedFrom;
+  if (alternativeOf) payload.alternative_of = alternativeOf;
 
-  const response = await fetch(`${BASE_URL}/chat/completion`, {
+  const response = await authFetch(`${BASE_URL}/chat/completion`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -46,86 +62,208 @@ export const fetchCompletion = async (prompt: string, conversionUuid: string | n
   };
 };
 
+export interface ReconnectPolicy {
+  maxAttempts: number;  // Consecutive failed reconnects before giving up
+  baseDelayMs: number;  // Delay before the first reconnect, doubled on each further attempt
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+export interface StreamThreadingOptions {
+  /** Overrides the transport selected by `VITE_THREADING_TRANSPORT`. */
+  transport?: ThreadingTransport;
+  /** Receives structured reports for stream data that could not be parsed. */
+  onDiagnostic?: (diagnostic: StreamDiagnostic) => void;
+  /** Receives connection state changes (connecting, open, reconnecting). */
+  onStatus?: (status: StreamConnectionStatus) => void;
+  /** Pass `false` to disable automatic reconnects. */
+  reconnect?: Partial<ReconnectPolicy> | false;
+  /**
+   * The server always ends a run explicitly (the root's final or error chunk, or an end event),
+   * so a stream that closes cleanly without one was cut off and is reconnected.
+   * Otherwise a clean close counts as the end of the run.
+   */
+  expectRunEnd?: boolean;
+}
+
 /**
- * Connects to the threading endpoint and yields chunks.
+ * Whether a chunk ends the whole run: the final or error chunk of a top-level agent. Errors and
+ * final chunks of tools and sub-agents (and the report's later final chunks) don't.
+ */
+const isRunEndChunk = (chunk: ChunkMessage) =>
+  !chunk.parent_id && chunk.role !== Role.HUMAN && (chunk.type === MessageType.FINAL || chunk.role === Role.ERROR);
+
+const sameChunk = (a: ChunkMessage, b: ChunkMessage) =>
+  a.id === b.id && a.parent_id === b.parent_id && a.role === b.role && a.type === b.type && a.message === b.message;
+
+const backoffDelay = (attempt: number, policy: ReconnectPolicy) => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Up to 20% jitter so a fleet of clients doesn't reconnect in lockstep
+  return Math.round(exponential * (0.8 + Math.random() * 0.2));
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('The operation was aborted.', 'AbortError'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The operation was aborted.', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Connects to the threading endpoint and yields chunks with their event metadata (id, type).
  * Explicitly does NOT send conversion_uuid.
+ * The wire protocol (NDJSON, SSE, WebSocket) is picked by `VITE_THREADING_TRANSPORT`.
  * Accepts an optional AbortSignal to cancel the stream.
+ *
+ * If the connection drops before the run is finished, it reconnects with exponential backoff
+ * using the same message_uuid and skips chunks that were already yielded:
+ * - events with ids are de-duplicated by id (and the last id is sent as the resume point);
+ * - without ids, a reconnect that replays the run from the start is recognised by matching
+ *   the delivered chunks in order, and that replayed prefix is skipped.
+ * The run counts as finished once the server signals its end (a top-level agent's `final` or
+ * `error` chunk, an end event, a normal WebSocket close) or the stream closes cleanly (see
+ * `expectRunEnd`). Failed connections are reconnected, except for client errors (4xx).
  */
-export async function* streamThreading(messageUuid: string, signal?: AbortSignal): AsyncGenerator<ChunkMessage, void, unknown> {
-  const payload: ThreadingDTO = {
-    message_uuid: messageUuid,
-  };
+export async function* streamThreadingEvents(
+  messageUuid: string,
+  signal?: AbortSignal,
+  { transport = getThreadingTransport(), onDiagnostic, onStatus, reconnect, expectRunEnd = false }: StreamThreadingOptions = {}
+): AsyncGenerator<ThreadingEvent, void, unknown> {
+  const policy = reconnect === false ? null : { ...DEFAULT_RECONNECT_POLICY, ...reconnect };
+  const seenIds = new Set<string>();
+  const delivered: ChunkMessage[] = [];
+  let lastEventId: string | undefined;
+  let finished = false;
+  let attempt = 0;
 
-  const response = await fetch(`${BASE_URL}/chat/threading`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-    signal,
-  });
+  while (true) {
+    let replayIndex = 0;
+    let replaying = attempt > 0;
+    let freshCount = 0;
+    let failure: unknown = null;
 
-  if (!response.ok) {
-    throw new Error(`Failed to stream threading: ${response.statusText}`);
-  }
+    onStatus?.({ state: 'connecting', attempt });
 
-  if (!response.body) {
-    throw new Error('Response body is null');
-  }
+    try {
+      const events = transport.stream(messageUuid, {
+        signal,
+        onDiagnostic,
+        lastEventId,
+        onOpen: () => onStatus?.({ state: 'open', attempt }),
+        onEnd: () => { finished = true; },
+      });
 
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder('utf-8');
-  let buffer = '';
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      buffer += chunk;
-
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.trim()) {
-            try {
-                const cleanLine = line.replace(/^data: /, '');
-                const json = JSON.parse(cleanLine);
-                yield json;
-            } catch (e) {
-                console.warn('Failed to parse chunk JSON', line, e);
-            }
+      for await (const event of events) {
+        if (event.id) {
+          if (seenIds.has(event.id)) continue;
+          seenIds.add(event.id);
+          lastEventId = event.id;
+        } else if (replaying) {
+          if (replayIndex < delivered.length && sameChunk(event.chunk, delivered[replayIndex])) {
+            replayIndex++;
+            continue;
+          }
+          replaying = false;
         }
+
+        freshCount++;
+        delivered.push(event.chunk);
+        if (isRunEndChunk(event.chunk)) finished = true;
+        yield event;
       }
+    } catch (err: any) {
+      // Reconnecting won't help once the server rejects the request or the credentials
+      if (err?.name === 'AbortError' || signal?.aborted || isUnauthorizedError(err) || isClientError(err)) throw err;
+      failure = err;
     }
-    
-    if (buffer.trim()) {
-        try {
-            const json = JSON.parse(buffer);
-            yield json;
-        } catch (e) {
-            console.warn('Failed to parse final chunk', buffer);
-        }
+
+    if (signal?.aborted) return;
+    // Nothing to resume once the run has ended, even if the connection then failed
+    if (finished) return;
+    // A clean close ends the run unless the server is known to end runs explicitly; a reconnect
+    // that closes without anything new means there is nothing left to resume either way
+    if (!failure && (!expectRunEnd || (attempt > 0 && freshCount === 0))) return;
+    if (!policy) {
+      if (failure) throw failure;
+      return;
+    }
+
+    // Progress on this connection resets the failure budget
+    attempt = freshCount > 0 ? 1 : attempt + 1;
+    if (attempt > policy.maxAttempts) {
+      throw failure || new Error('Threading stream ended unexpectedly and could not be resumed');
     }
 
-  } finally {
-    reader.releaseLock();
+    const delayMs = backoffDelay(attempt, policy);
+    onStatus?.({
+      state: 'reconnecting',
+      attempt,
+      delayMs,
+      reason: failure instanceof Error ? failure.message || String(failure)
+        : failure ? String(failure)
+        : 'Stream ended before the run finished',
+    });
+    await sleep(delayMs, signal);
+  }
+}
+
+/**
+ * Connects to the threading endpoint and yields chunks.
+ * Same as `streamThreadingEvents` without the event metadata.
+ */
+export async function* streamThreading(
+  messageUuid: string,
+  signal?: AbortSignal,
+  options: StreamThreadingOptions = {}
+): AsyncGenerator<ChunkMessage, void, unknown> {
+  for await (const event of streamThreadingEvents(messageUuid, signal, options)) {
+    yield event.chunk;
   }
 }
 
 /**
- * Fetches the list of conversations.
+ * Stops a running message on the backend, so its research (and tool usage) ends rather than just
+ * the browser's stream. The stored conversation then reports the message as `cancelled`.
+ */
+export const cancelThreading = async (messageUuid: string): Promise<void> => {
+  const payload: CancelDTO = { message_uuid: messageUuid };
+  const response = await authFetch(`${BASE_URL}/chat/cancel`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to cancel run: ${response.statusText}`);
+  }
+};
+
+/**
+ * Fetches the signed-in user's conversations.
  */
-export const fetchHistory = async (page: number = 1, pageSize: number = 20): Promise<PaginationResponse<ConversionVO>> => {
+export const fetchHistory = async (page: number = 1, pageSize: number = 20, filter: HistoryFilter = {}): Promise<PaginationResponse<ConversionVO>> => {
   const params = new URLSearchParams({
-    user_id: DEFAULT_USER_ID,
+    user_id: authStore.requireSession().userId,
     page_num: page.toString(),
     page_size: pageSize.toString()
   });
+  // Backends that don't support filtering ignore these; the Sidebar filters loaded items as well
+  if (filter.keyword) params.set('keyword', filter.keyword);
+  if (filter.startDate) params.set('start_date', filter.startDate);
+  if (filter.endDate) params.set('end_date', filter.endDate);
 
-  const response = await fetch(`${BASE_URL}/conversion/list?${params.toString()}`);
+  const response = await authFetch(`${BASE_URL}/conversion/list?${params.toString()}`);
   
   if (!response.ok) {
     throw new Error(`Failed to fetch history: ${response.statusText}`);
@@ -139,7 +277,7 @@ export const fetchHistory = async (page: number = 1, pageSize: number = 20): Pro
  * Fetches details (messages) for a specific conversation.
  */
 export const fetchConversationDetail = async (uuid: string): Promise<MessageEntity[]> => {
-  const response = await fetch(`${BASE_URL}/conversion/get/${uuid}`);
+  const response = await authFetch(`${BASE_URL}/conversion/get/${uuid}`);
   
   if (!response.ok) {
     throw new Error(`Failed to fetch conversation details: ${response.statusText}`);
@@ -153,7 +291,7 @@ export const fetchConversationDetail = async (uuid: string): Promise<MessageEnti
  * Deletes a conversation.
  */
 export const deleteConversation = async (uuid: string): Promise<void> => {
-  const response = await fetch(`${BASE_URL}/conversion/remove`, {
+  const response = await authFetch(`${BASE_URL}/conversion/remove`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ uuid })
@@ -168,7 +306,7 @@ export const deleteConversation = async (uuid: string): Promise<void> => {
  * Updates a conversation (e.g. rename).
  */
 export const updateConversation = async (uuid: string, title: string): Promise<void> => {
-  const response = await fetch(`${BASE_URL}/conversion/update`, {
+  const response = await authFetch(`${BASE_URL}/conversion/update`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ uuid, title })
@@ -0,0 +1,206 @@
+import { AUTH_PROVIDER, AuthProviderKind, BASE_URL } from './config';
+import { t } from '../i18n';
+
+/**
+ * The signed-in user. Every API call carries `userId` and sends `token` as a bearer token.
+ */
+export interface AuthSession {
+  userId: string;
+  displayName: string;
+  token: string;
+  expiresAt?: number; // Epoch ms; the session is dropped once passed
+  provider: AuthProviderKind;
+}
+
+export interface AuthCredentials {
+  username: string;
+  password: string;
+}
+
+export interface AuthProvider {
+  kind: AuthProviderKind;
+  signIn(credentials: AuthCredentials): Promise<AuthSession>;
+}
+
+/**
+ * Development identity: any user name signs in, no backend involved. The token is opaque
+ * and only meaningful to backends running without auth.
+ */
+export const createStubAuthProvider = (): AuthProvider => ({
+  kind: 'stub',
+  async signIn({ username }) {
+    const userId = username.trim();
+    if (!userId) throw new Error(t('auth.error.usernameRequired'));
+    return {
+      userId,
+      displayName: userId,
+      token: `stub.${btoa(encodeURIComponent(userId))}.${Date.now().toString(36)}`,
+      provider: 'stub',
+    };
+  },
+});
+
+/**
+ * POST /auth/login with user name and password.
+ */
+export const createHttpAuthProvider = (): AuthProvider => ({
+  kind: 'http',
+  async signIn({ username, password }) {
+    const response = await fetch(`${BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(t('auth.error.invalidCredentials'));
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to sign in: ${response.statusText}`);
+    }
+
+    // Adapt to potential API response structures (wrapped in `data` or not)
+    const result = await response.json();
+    const data = result.data || result;
+    const token = data.token || data.access_token;
+    const userId = data.user_id || data.userId || username;
+    if (!token) {
+      throw new Error('API response missing token');
+    }
+
+    return {
+      userId,
+      displayName: data.display_name || data.name || userId,
+      token,
+      expiresAt: typeof data.expires_in === 'number' ? Date.now() + data.expires_in * 1000 : undefined,
+      provider: 'http',
+    };
+  },
+});
+
+const providerFactories: Record<AuthProviderKind, () => AuthProvider> = {
+  stub: createStubAuthProvider,
+  http: createHttpAuthProvider,
+};
+
+export const getAuthProvider = (kind: AuthProviderKind = AUTH_PROVIDER): AuthProvider => providerFactories[kind]();
+
+// --- Session state ---
+
+export interface AuthState {
+  session: AuthSession | null;
+  /** The server rejected the session's token (401); the user has to sign in again. */
+  reauthRequired: boolean;
+}
+
+export interface AuthStore {
+  getState(): AuthState;
+  /** The current session; throws an unauthorized error when signed out. */
+  requireSession(): AuthSession;
+  signIn(credentials: AuthCredentials): Promise<AuthSession>;
+  signOut(): void;
+  /** Marks the session as rejected by the server so the app prompts to sign in again. */
+  expire(): void;
+  subscribe(listener: () => void): () => void;
+  provider: AuthProvider;
+}
+
+const STORAGE_KEY = 'deep-research.auth';
+
+const loadStoredSession = (): AuthSession | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!stored?.userId || !stored?.token) return null;
+    if (stored.expiresAt && stored.expiresAt <= Date.now()) return null;
+    return stored;
+  } catch (e) {
+    return null;
+  }
+};
+
+const storeSession = (session: AuthSession | null) => {
+  try {
+    if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    // Storage unavailable (private mode): the session lasts for this page only
+  }
+};
+
+export const UNAUTHORIZED_ERROR = 'UnauthorizedError';
+
+export const createUnauthorizedError = (message = t('auth.error.expired')) => {
+  const error = new Error(message);
+  error.name = UNAUTHORIZED_ERROR;
+  return error;
+};
+
+export const isUnauthorizedError = (err: unknown) => err instanceof Error && err.name === UNAUTHORIZED_ERROR;
+
+/**
+ * Holds the signed-in session (persisted in localStorage) and notifies subscribers on changes.
+ */
+export const createAuthStore = (provider: AuthProvider = getAuthProvider()): AuthStore => {
+  let state: AuthState = { session: loadStoredSession(), reauthRequired: false };
+  const listeners = new Set<() => void>();
+
+  const setState = (next: AuthState) => {
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    provider,
+    getState: () => state,
+
+    requireSession() {
+      const { session } = state;
+      if (!session) throw createUnauthorizedError(t('auth.error.signedOut'));
+      if (session.expiresAt && session.expiresAt <= Date.now()) {
+        setState({ ...state, reauthRequired: true });
+        throw createUnauthorizedError();
+      }
+      return session;
+    },
+
+    async signIn(credentials) {
+      const session = await provider.signIn(credentials);
+      storeSession(session);
+      setState({ session, reauthRequired: false });
+      return session;
+    },
+
+    signOut() {
+      storeSession(null);
+      setState({ session: null, reauthRequired: false });
+    },
+
+    expire() {
+      if (state.session && !state.reauthRequired) setState({ ...state, reauthRequired: true });
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const authStore = createAuthStore();
+
+/**
+ * `fetch` on behalf of the signed-in user: adds the bearer token, and turns a 401 into an
+ * unauthorized error after flagging the session for re-authentication.
+ */
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const session = authStore.requireSession();
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${session.token}`);
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401) {
+    authStore.expire();
+    throw createUnauthorizedError();
+  }
+  return response;
+};
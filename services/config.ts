@@ -0,0 +1,33 @@
+// Use environment variable for API URL with a fallback to localhost
+// Remove trailing slash if present to prevent double slashes in requests
+export const BASE_URL = ((import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:8000').replace(/\/$/, '');
+
+/**
+ * Which wire protocol the threading stream uses.
+ * - `ndjson`: POST /chat/threading, newline-delimited JSON body (default)
+ * - `sse`: GET /chat/threading as a real `text/event-stream` via EventSource
+ * - `websocket`: /chat/threading/ws, one JSON chunk per frame
+ */
+export type ThreadingTransportKind = 'ndjson' | 'sse' | 'websocket';
+
+const TRANSPORT_KINDS: ThreadingTransportKind[] = ['ndjson', 'sse', 'websocket'];
+
+const configuredTransport = ((import.meta as any).env.VITE_THREADING_TRANSPORT || 'ndjson').toLowerCase();
+
+export const THREADING_TRANSPORT: ThreadingTransportKind = TRANSPORT_KINDS.includes(configuredTransport)
+  ? configuredTransport
+  : 'ndjson';
+
+// WebSocket endpoint defaults to the API base URL with the scheme swapped (http -> ws, https -> wss)
+export const WS_BASE_URL = ((import.meta as any).env.VITE_WS_BASE_URL || BASE_URL.replace(/^http/, 'ws')).replace(/\/$/, '');
+
+/**
+ * Where sign-in goes.
+ * - `stub`: local development identity, any user name signs in without a backend (default)
+ * - `http`: POST /auth/login on the API server, which returns the user id and a bearer token
+ */
+export type AuthProviderKind = 'stub' | 'http';
+
+const configuredAuthProvider = ((import.meta as any).env.VITE_AUTH_PROVIDER || 'stub').toLowerCase();
+
+export const AUTH_PROVIDER: AuthProviderKind = configuredAuthProvider === 'http' ? 'http' : 'stub';
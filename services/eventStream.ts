@@ -0,0 +1,181 @@
+import { ChunkMessage, StreamDiagnostic } from '../types';
+
+/**
+ * A dispatched event from a `text/event-stream` body.
+ * Field semantics follow the WHATWG HTML "server-sent events" section.
+ */
+export interface ServerSentEvent {
+  event: string;        // Event type, 'message' when no `event:` field was sent
+  data: string;         // All `data:` lines of the event joined with '\n'
+  id?: string;          // Last event ID in effect when the event was dispatched
+  retry?: number;       // Reconnection time requested by the server (ms)
+}
+
+/**
+ * Incremental event-stream decoder.
+ * Feed it text as it arrives with `push`; it returns every event completed by that text.
+ * Handles `\r\n`, `\r` and `\n` line endings (including a `\r\n` split across pushes),
+ * multi-line `data:` fields, `event:`/`id:`/`retry:` fields and `:` comments.
+ */
+export const createEventStreamDecoder = () => {
+  let buffer = '';
+  let pendingCR = false;
+  let dataLines: string[] = [];
+  let eventType = '';
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = (): ServerSentEvent | null => {
+    const hasData = dataLines.length > 0;
+    const event: ServerSentEvent = {
+      event: eventType || 'message',
+      data: dataLines.join('\n'),
+      id: lastEventId,
+      retry,
+    };
+    dataLines = [];
+    eventType = '';
+    retry = undefined;
+    // Per spec, an event with no data lines is not dispatched
+    return hasData ? event : null;
+  };
+
+  const processLine = (line: string): ServerSentEvent | null => {
+    if (line === '') return dispatch();
+    if (line.startsWith(':')) return null; // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'event':
+        eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\u0000')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+    return null;
+  };
+
+  const consumeLines = (): ServerSentEvent[] => {
+    const events: ServerSentEvent[] = [];
+    let start = 0;
+
+    for (let i = 0; i < buffer.length; i++) {
+      const ch = buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+
+      const event = processLine(buffer.slice(start, i));
+      if (event) events.push(event);
+
+      if (ch === '\r') {
+        if (i + 1 === buffer.length) {
+          // Can't tell yet whether this '\r' is followed by '\n'
+          pendingCR = true;
+        } else if (buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+
+    buffer = buffer.slice(start);
+    return events;
+  };
+
+  return {
+    push(text: string): ServerSentEvent[] {
+      // An empty push can't tell whether a pending '\r' ends with '\n' either
+      if (pendingCR && text) {
+        pendingCR = false;
+        if (text.startsWith('\n')) text = text.slice(1);
+      }
+      buffer += text;
+      return consumeLines();
+    },
+
+    /**
+     * Call once the body has ended. A trailing, unterminated event is dispatched
+     * (the spec discards it, but many servers omit the final blank line).
+     */
+    flush(): ServerSentEvent[] {
+      const events: ServerSentEvent[] = [];
+      if (buffer) {
+        const event = processLine(buffer);
+        if (event) events.push(event);
+        buffer = '';
+      }
+      const trailing = dispatch();
+      if (trailing) events.push(trailing);
+      return events;
+    },
+
+    get lastEventId() {
+      return lastEventId;
+    },
+  };
+};
+
+const isChunkMessage = (value: unknown): value is ChunkMessage => {
+  return typeof value === 'object' && value !== null && typeof (value as ChunkMessage).role === 'string';
+};
+
+/**
+ * Parses the payload of one event into a `ChunkMessage`.
+ * Returns every chunk it could recover plus a diagnostic for anything it could not.
+ *
+ * Some servers send one `data:` line per chunk without blank-line separators, which a
+ * spec-compliant decoder joins into one multi-line payload. When the joined payload is
+ * not valid JSON but every line is, each line is treated as its own chunk.
+ */
+export const parseChunkPayload = (
+  raw: string,
+  meta: { id?: string; event?: string } = {}
+): { chunks: ChunkMessage[]; diagnostics: StreamDiagnostic[] } => {
+  const diagnostic = (kind: StreamDiagnostic['kind'], message: string, text: string): StreamDiagnostic => ({
+    kind,
+    message,
+    raw: text,
+    eventId: meta.id,
+    eventType: meta.event,
+    timestamp: Date.now(),
+  });
+
+  const parseOne = (text: string): { chunk?: ChunkMessage; diagnostic?: StreamDiagnostic } => {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (e: any) {
+      return { diagnostic: diagnostic('invalid_json', e?.message || 'Invalid JSON', text) };
+    }
+    if (!isChunkMessage(value)) {
+      return { diagnostic: diagnostic('invalid_chunk', 'Payload is not a chunk message (missing role)', text) };
+    }
+    return { chunk: value };
+  };
+
+  const whole = parseOne(raw);
+  if (whole.chunk) return { chunks: [whole.chunk], diagnostics: [] };
+
+  const lines = raw.split('\n').filter(line => line.trim());
+  if (whole.diagnostic?.kind === 'invalid_json' && lines.length > 1) {
+    const parts = lines.map(parseOne);
+    if (parts.every(part => part.chunk)) {
+      return { chunks: parts.map(part => part.chunk!), diagnostics: [] };
+    }
+  }
+
+  return { chunks: [], diagnostics: [whole.diagnostic!] };
+};
@@ -0,0 +1,32 @@
+/**
+ * Where forked conversations branched from, remembered per browser for backends that don't return
+ * `forked_from` in the conversation list.
+ */
+
+export interface ForkOrigin {
+  /** The conversation the fork branched from. */
+  conversionUuid: string;
+  /** The node the fork's first question followed up on. */
+  nodeId?: string;
+  nodeLabel?: string;
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'deep-research.forks';
+
+export const loadForkOrigins = (): Record<string, ForkOrigin> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const recordForkOrigin = (conversionUuid: string, origin: ForkOrigin) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadForkOrigins(), [conversionUuid]: origin }));
+  } catch (e) {
+    // Storage unavailable (private mode): the sidebar can't show this fork's origin
+  }
+};
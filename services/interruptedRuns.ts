@@ -0,0 +1,62 @@
+/**
+ * Interrupted and cancelled runs as last seen per conversation, remembered per browser for backends
+ * that don't report the run status in the conversation list, and the policy for resuming
+ * interrupted runs when a conversation is opened.
+ */
+
+/** Status of a conversation's latest run, when it didn't finish. */
+export type RunStatus = 'interrupted' | 'cancelled';
+
+/**
+ * What opening a conversation with an interrupted run does:
+ * - `manual`: shows the run as interrupted; it is resumed with the banner's Resume button;
+ * - `auto`: resumes it right away (the banner can still stop following it).
+ */
+export type ResumePolicy = 'manual' | 'auto';
+
+const STATUS_STORAGE_KEY = 'deep-research.runStatus';
+const POLICY_STORAGE_KEY = 'deep-research.resumePolicy';
+
+export const DEFAULT_RESUME_POLICY: ResumePolicy = 'manual';
+
+export const loadRunStatuses = (): Record<string, RunStatus> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STATUS_STORAGE_KEY) || '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+/**
+ * Records the status of the conversation's latest run; `null` when it finished.
+ * Returns whether the recorded status changed.
+ */
+export const recordRunStatus = (conversionUuid: string, status: RunStatus | null): boolean => {
+  const { [conversionUuid]: previous, ...others } = loadRunStatuses();
+  if (previous === (status ?? undefined)) return false;
+  try {
+    localStorage.setItem(STATUS_STORAGE_KEY, JSON.stringify(status ? { ...others, [conversionUuid]: status } : others));
+    return true;
+  } catch (e) {
+    // Storage unavailable (private mode): the sidebar relies on the backend's status only
+    return false;
+  }
+};
+
+export const loadResumePolicy = (): ResumePolicy => {
+  try {
+    const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+    return stored === 'auto' || stored === 'manual' ? stored : DEFAULT_RESUME_POLICY;
+  } catch (e) {
+    return DEFAULT_RESUME_POLICY;
+  }
+};
+
+export const saveResumePolicy = (policy: ResumePolicy) => {
+  try {
+    localStorage.setItem(POLICY_STORAGE_KEY, policy);
+  } catch (e) {
+    // Storage unavailable: the policy applies to this page only
+  }
+};
@@ -0,0 +1,319 @@
+import { ThreadingDTO, ThreadingEvent, StreamDiagnostic } from '../types';
+import { BASE_URL, WS_BASE_URL, THREADING_TRANSPORT, ThreadingTransportKind } from './config';
+import { createEventStreamDecoder, parseChunkPayload } from './eventStream';
+import { authFetch, authStore } from './auth';
+
+export interface TransportStreamOptions {
+  signal?: AbortSignal;
+  /** Called for every payload that could not be parsed into a chunk. */
+  onDiagnostic?: (diagnostic: StreamDiagnostic) => void;
+  /** ID of the last event already received, sent when resuming so the server can skip ahead. */
+  lastEventId?: string;
+  /** Called once the connection is established. */
+  onOpen?: () => void;
+  /** Called when the server explicitly ends the run (see `RUN_END_EVENT`, WebSocket close 1000). */
+  onEnd?: () => void;
+}
+
+/** Event type (SSE `event:` field) with which the server marks the end of the run. */
+export const RUN_END_EVENT = 'end';
+
+/**
+ * Named event types (SSE `event:` field) the backend sends chunks with, besides unnamed `message`
+ * events. EventSource only delivers named events to listeners registered for their exact type,
+ * while the fetch-based decoder reads every event; listening for these keeps both transports alike.
+ */
+export const CHUNK_EVENT_TYPES = ['chunk', 'new', 'append', 'final', 'error'];
+
+/**
+ * An error response of the threading endpoint. Client errors (4xx) are not worth retrying.
+ */
+export const createHttpError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+const hasStatus = (err: unknown): err is { status?: unknown } => typeof err === 'object' && err !== null && 'status' in err;
+
+export const isClientError = (err: unknown) => {
+  const status = hasStatus(err) ? err.status : undefined;
+  return typeof status === 'number' && status >= 400 && status < 500;
+};
+
+/**
+ * A wire protocol for the threading stream.
+ * Every implementation yields parsed chunks (with their event metadata) in arrival order,
+ * finishes when the server ends the stream, and throws an `AbortError` when the signal is aborted.
+ */
+export interface ThreadingTransport {
+  kind: ThreadingTransportKind;
+  stream(messageUuid: string, options?: TransportStreamOptions): AsyncGenerator<ThreadingEvent, void, unknown>;
+}
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+/**
+ * Minimal push -> pull bridge so callback-based sources (EventSource, WebSocket)
+ * can be consumed with `for await`.
+ */
+const createChunkQueue = () => {
+  const items: ThreadingEvent[] = [];
+  let failure: unknown = null;
+  let closed = false;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  return {
+    push(item: ThreadingEvent) {
+      if (closed) return;
+      items.push(item);
+      notify();
+    },
+    close() {
+      closed = true;
+      notify();
+    },
+    fail(err: unknown) {
+      if (closed) return;
+      failure = err;
+      closed = true;
+      notify();
+    },
+    async *drain(): AsyncGenerator<ThreadingEvent, void, unknown> {
+      while (true) {
+        if (items.length > 0) {
+          yield items.shift()!;
+          continue;
+        }
+        if (failure) throw failure;
+        if (closed) return;
+        await new Promise<void>(resolve => { wake = resolve; });
+      }
+    },
+  };
+};
+
+/**
+ * Parses one payload into events, forwarding anything unparseable to `onDiagnostic`.
+ */
+const decodePayload = (
+  raw: string,
+  meta: { id?: string; event?: string },
+  onDiagnostic?: (diagnostic: StreamDiagnostic) => void
+): ThreadingEvent[] => {
+  const { chunks, diagnostics } = parseChunkPayload(raw, meta);
+  diagnostics.forEach(d => onDiagnostic?.(d));
+  return chunks.map(chunk => ({ chunk, id: meta.id, event: meta.event || 'message' }));
+};
+
+/**
+ * POST /chat/threading and read the streamed body.
+ * When the server answers with `text/event-stream` the body is decoded as a spec-compliant
+ * event stream; otherwise it is read as newline-delimited JSON (lines may carry a `data: ` prefix).
+ */
+export const createNdjsonTransport = (): ThreadingTransport => ({
+  kind: 'ndjson',
+  async *stream(messageUuid, { signal, onDiagnostic, lastEventId, onOpen, onEnd } = {}) {
+    const payload: ThreadingDTO = {
+      message_uuid: messageUuid,
+    };
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+    const response = await authFetch(`${BASE_URL}/chat/threading`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw createHttpError(`Failed to stream threading: ${response.statusText}`, response.status);
+    }
+
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
+
+    onOpen?.();
+
+    const isEventStream = (response.headers.get('Content-Type') || '').includes('text/event-stream');
+    const reader = response.body.getReader();
+    const textDecoder = new TextDecoder('utf-8');
+
+    try {
+      if (isEventStream) {
+        const decoder = createEventStreamDecoder();
+        const toEvents = (events: ReturnType<typeof decoder.push>) =>
+          events.flatMap(e => {
+            if (e.event === RUN_END_EVENT) {
+              onEnd?.();
+              return [];
+            }
+            return decodePayload(e.data, { id: e.id, event: e.event }, onDiagnostic);
+          });
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          yield* toEvents(decoder.push(textDecoder.decode(value, { stream: true })));
+        }
+        yield* toEvents(decoder.push(textDecoder.decode()));
+        yield* toEvents(decoder.flush());
+        return;
+      }
+
+      let buffer = '';
+      const toEvents = (line: string) => {
+        const clean = line.replace(/\r$/, '');
+        if (!clean.trim()) return [];
+        return decodePayload(clean.replace(/^data: ?/, ''), {}, onDiagnostic);
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += textDecoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          yield* toEvents(line);
+        }
+      }
+
+      buffer += textDecoder.decode();
+      yield* toEvents(buffer);
+    } finally {
+      reader.releaseLock();
+    }
+  },
+});
+
+/**
+ * GET /chat/threading?message_uuid=... as a real `text/event-stream` through the browser's EventSource.
+ * EventSource can't tell a server that is done from a dropped connection (and would reconnect on
+ * its own), so losing the connection after it opened fails the stream; streamThreading then
+ * decides whether the run had already ended or needs resuming. Chunks are read from unnamed events
+ * and from the named types in `CHUNK_EVENT_TYPES`.
+ */
+export const createEventSourceTransport = (): ThreadingTransport => ({
+  kind: 'sse',
+  async *stream(messageUuid, { signal, onDiagnostic, lastEventId, onOpen, onEnd } = {}) {
+    if (signal?.aborted) throw abortError();
+
+    // EventSource can't set headers, so the token and the resume point go in the query
+    const params = new URLSearchParams({ message_uuid: messageUuid, access_token: authStore.requireSession().token });
+    if (lastEventId) params.set('last_event_id', lastEventId);
+    const source = new EventSource(`${BASE_URL}/chat/threading?${params.toString()}`);
+    const queue = createChunkQueue();
+    let opened = false;
+
+    const onAbort = () => queue.fail(abortError());
+    signal?.addEventListener('abort', onAbort);
+
+    source.onopen = () => {
+      opened = true;
+      onOpen?.();
+    };
+    const onEvent = (event: Event) => {
+      // The connection's own `error` events carry no data
+      if (!(event instanceof MessageEvent) || typeof event.data !== 'string') return;
+      const meta = { id: event.lastEventId || undefined, event: event.type };
+      decodePayload(event.data, meta, onDiagnostic).forEach(queue.push);
+    };
+    source.onmessage = onEvent;
+    CHUNK_EVENT_TYPES.forEach(type => source.addEventListener(type, onEvent));
+    source.addEventListener(RUN_END_EVENT, () => {
+      onEnd?.();
+      queue.close();
+    });
+    source.onerror = (event: Event) => {
+      // A server-sent `event: error` message (see CHUNK_EVENT_TYPES) is a chunk, not a failure
+      if (event instanceof MessageEvent) return;
+      if (opened) {
+        queue.fail(new Error('Failed to stream threading: event stream connection lost'));
+      } else {
+        queue.fail(new Error('Failed to stream threading: could not open event stream'));
+      }
+    };
+
+    try {
+      yield* queue.drain();
+    } finally {
+      source.close();
+      signal?.removeEventListener('abort', onAbort);
+    }
+  },
+});
+
+/**
+ * Connect to /chat/threading/ws, send the ThreadingDTO once open and read one JSON chunk per frame.
+ * The server ends the run by closing the socket normally (code 1000).
+ */
+export const createWebSocketTransport = (): ThreadingTransport => ({
+  kind: 'websocket',
+  async *stream(messageUuid, { signal, onDiagnostic, lastEventId, onOpen, onEnd } = {}) {
+    if (signal?.aborted) throw abortError();
+
+    const payload: ThreadingDTO = {
+      message_uuid: messageUuid,
+      ...(lastEventId ? { last_event_id: lastEventId } : {}),
+    };
+
+    // Browsers can't set headers on WebSocket handshakes; the token goes in the query
+    const params = new URLSearchParams({ access_token: authStore.requireSession().token });
+    const socket = new WebSocket(`${WS_BASE_URL}/chat/threading/ws?${params.toString()}`);
+    const queue = createChunkQueue();
+
+    const onAbort = () => queue.fail(abortError());
+    signal?.addEventListener('abort', onAbort);
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify(payload));
+      onOpen?.();
+    };
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      decodePayload(event.data, {}, onDiagnostic).forEach(queue.push);
+    };
+    socket.onclose = (event: CloseEvent) => {
+      if (event.code === 1000) {
+        onEnd?.();
+        queue.close();
+      } else {
+        queue.fail(new Error(`Failed to stream threading: socket closed (${event.code}${event.reason ? ` ${event.reason}` : ''})`));
+      }
+    };
+
+    try {
+      yield* queue.drain();
+    } finally {
+      socket.onclose = null;
+      if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
+        socket.close(1000);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    }
+  },
+});
+
+const transportFactories: Record<ThreadingTransportKind, () => ThreadingTransport> = {
+  ndjson: createNdjsonTransport,
+  sse: createEventSourceTransport,
+  websocket: createWebSocketTransport,
+};
+
+/**
+ * Returns the transport selected by `VITE_THREADING_TRANSPORT` (or an explicit kind).
+ */
+export const getThreadingTransport = (kind: ThreadingTransportKind = THREADING_TRANSPORT): ThreadingTransport => {
+  return transportFactories[kind]();
+};
@@ -0,0 +1,128 @@
+import { ResearchNode, Role } from '../types';
+import { ResearchTreeState, getVisibleRootIds, isAttemptSettled } from './researchTree';
+
+/** Frame id used for the "unattached" group that wraps orphaned nodes. */
+export const UNATTACHED_GROUP_ID = '__unattached__';
+
+/**
+ * An ancestor card that a row is drawn inside. Rows repeat the frame's side borders so
+ * nested cards look the same as when children were rendered inside their parent's DOM.
+ */
+export interface TreeRowFrame {
+  nodeId: string;   // Ancestor node id, or UNATTACHED_GROUP_ID
+  closes: boolean;  // This row is the last one inside the frame (draws its bottom edge)
+}
+
+/**
+ * One row of the flattened, visible tree.
+ * - `node`: the card of a node (header + own content, without children)
+ * - `report`: the Final Research Report shown after a final node's subtree
+ * - `unattached`: header of the group of nodes whose parent never arrived
+ */
+export interface TreeRow {
+  key: string;
+  kind: 'node' | 'report' | 'unattached';
+  nodeId: string;
+  depth: number;
+  frames: TreeRowFrame[];         // Enclosing frames, outermost first (length === depth)
+  ancestorFinished: boolean;      // An ancestor is done, so this node renders as done too
+  hasVisibleChildren: boolean;    // Node rows: children follow (card stays open at the bottom)
+  isTopLevel: boolean;            // Starts a top-level block (gets the spacing between roots)
+  isRunSettled: boolean;          // Top-level prompts: the prompt's run is over (see isAttemptSettled)
+}
+
+/**
+ * Whether a node should be visually treated as completed: it is completed, or it is an agent
+ * that has already finished its `complete_task` call.
+ */
+export const isNodeEffectivelyDone = (node: ResearchNode, nodes: Map<string, ResearchNode>): boolean => {
+  if (node.status === 'completed') return true;
+  if (node.role !== Role.ASSISTANT) return false;
+  return node.children.some(childId => {
+    const child = nodes.get(childId);
+    return child?.role === Role.TOOL_CALL && child.name === 'complete_task' && child.status === 'completed';
+  });
+};
+
+/**
+ * Flattens the visible part of the tree (children of collapsed nodes and hidden attempts of re-sent
+ * prompts are skipped) into rows, in the same order the nested cards would be rendered.
+ */
+export const flattenVisibleTree = (state: ResearchTreeState, collapsed: ReadonlySet<string>): TreeRow[] => {
+  const { nodes } = state;
+  const rows: TreeRow[] = [];
+
+  const framesFor = (stack: string[]): TreeRowFrame[] => stack.map(nodeId => ({ nodeId, closes: false }));
+
+  const closeFrame = (fromIndex: number, level: number) => {
+    // The last row emitted since `fromIndex` ends the frame at `level`
+    if (rows.length > fromIndex) {
+      rows[rows.length - 1].frames[level].closes = true;
+    }
+  };
+
+  const walk = (nodeId: string, stack: string[], ancestorFinished: boolean, isTopLevel: boolean) => {
+    const node = nodes.get(nodeId);
+    if (!node) return;
+
+    const depth = stack.length;
+    const childIds = node.children.filter(childId => nodes.has(childId));
+    const expanded = !collapsed.has(nodeId) && childIds.length > 0;
+
+    rows.push({
+      key: nodeId,
+      kind: 'node',
+      nodeId,
+      depth,
+      frames: framesFor(stack),
+      ancestorFinished,
+      hasVisibleChildren: expanded,
+      isTopLevel,
+      // Computed once per attempt here, so the cards don't each watch the whole tree
+      isRunSettled: isTopLevel && node.role === Role.HUMAN && isAttemptSettled(state, nodeId),
+    });
+
+    if (expanded) {
+      const done = ancestorFinished || isNodeEffectivelyDone(node, nodes);
+      const childStack = [...stack, nodeId];
+      const start = rows.length;
+      childIds.forEach(childId => walk(childId, childStack, done, false));
+      closeFrame(start, depth);
+    }
+
+    if (node.isFinal && node.role !== Role.HUMAN) {
+      rows.push({
+        key: `${nodeId}::report`,
+        kind: 'report',
+        nodeId,
+        depth,
+        frames: framesFor(stack),
+        ancestorFinished,
+        hasVisibleChildren: false,
+        isTopLevel: false,
+        isRunSettled: false,
+      });
+    }
+  };
+
+  getVisibleRootIds(state).forEach(rootId => walk(rootId, [], false, true));
+
+  if (state.unattachedIds.length > 0) {
+    rows.push({
+      key: UNATTACHED_GROUP_ID,
+      kind: 'unattached',
+      nodeId: UNATTACHED_GROUP_ID,
+      depth: 0,
+      frames: [],
+      ancestorFinished: false,
+      hasVisibleChildren: true,
+      isTopLevel: true,
+      isRunSettled: false,
+    });
+    const start = rows.length;
+    state.unattachedIds.forEach(nodeId => walk(nodeId, [UNATTACHED_GROUP_ID], false, false));
+    closeFrame(start, 0);
+  }
+
+  return rows;
+};
@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Starts a follow-up anchored to a node (the composer then shows the anchor, see Visualization).
+ * Null where follow-ups aren't possible, e.g. read-only imported sessions.
+ */
+export const FollowUpContext = createContext<((nodeId: string) => void) | null>(null);
+
+export const useFollowUp = () => useContext(FollowUpContext);
@@ -0,0 +1,116 @@
+import { Role } from '../types';
+import { ResearchTreeState, getVisibleRootIds } from './researchTree';
+
+/**
+ * Node-link layout of the research tree for the graph view: depth runs left to right, leaves are
+ * stacked top to bottom in tree order and every parent is centered on its children.
+ */
+
+export const GRAPH_COLUMN_WIDTH = 220;
+export const GRAPH_ROW_HEIGHT = 30;
+// Extra space between separate trees (roots and the unattached group)
+const ROOT_GAP_ROWS = 1;
+
+export interface GraphNode {
+  id: string;
+  x: number;
+  y: number;
+  depth: number;
+  role: Role;
+  isUnattached: boolean;
+}
+
+export interface GraphEdge {
+  id: string;
+  from: GraphNode;
+  to: GraphNode;
+}
+
+export interface GraphLayout {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  width: number;
+  height: number;
+  /** The tree structure the layout was computed from: top-level ids and each placed node's child ids. */
+  rootIds: readonly string[];
+  unattachedIds: readonly string[];
+  childIds: Map<string, readonly string[] | undefined>;
+}
+
+const sameIds = (a: readonly string[], b: readonly string[]) =>
+  a === b || (a.length === b.length && a.every((id, index) => id === b[index]));
+
+// Positions depend only on which nodes exist and how they are linked. Nodes are replaced when they
+// change but keep their `children` array until a child is added, so comparing arrays by identity
+// tells whether any link changed.
+const hasSameStructure = (state: ResearchTreeState, layout: GraphLayout) => {
+  if (!sameIds(getVisibleRootIds(state), layout.rootIds) || !sameIds(state.unattachedIds, layout.unattachedIds)) return false;
+  for (const [nodeId, children] of layout.childIds) {
+    if (state.nodes.get(nodeId)?.children !== children) return false;
+  }
+  return true;
+};
+
+/**
+ * Lays out the visible tree. Returns `previous` itself when the structure hasn't changed, so
+ * streamed content doesn't move anything; cards read their content and status from the store.
+ */
+export const layoutGraph = (state: ResearchTreeState, previous?: GraphLayout): GraphLayout => {
+  if (previous && hasSameStructure(state, previous)) return previous;
+
+  const { nodes } = state;
+  const graphNodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  const childIds = new Map<string, readonly string[] | undefined>();
+  let row = 0;
+  let maxDepth = 0;
+
+  // Returns the placed node, or undefined when it doesn't exist or was already placed (cycle guard)
+  const place = (nodeId: string, depth: number, isUnattached: boolean): GraphNode | undefined => {
+    if (childIds.has(nodeId)) return undefined;
+    const node = nodes.get(nodeId);
+    childIds.set(nodeId, node?.children);
+    if (!node) return undefined;
+    maxDepth = Math.max(maxDepth, depth);
+
+    const children = node.children
+      .map(childId => place(childId, depth + 1, isUnattached))
+      .filter((child): child is GraphNode => !!child);
+
+    // Leaves take the next row; parents sit in the middle of their children
+    const y = children.length > 0
+      ? (children[0].y + children[children.length - 1].y) / 2
+      : row++ * GRAPH_ROW_HEIGHT;
+
+    const graphNode: GraphNode = {
+      id: nodeId,
+      x: depth * GRAPH_COLUMN_WIDTH,
+      y,
+      depth,
+      role: node.role,
+      isUnattached,
+    };
+    graphNodes.push(graphNode);
+    children.forEach(child => edges.push({ id: `${nodeId}->${child.id}`, from: graphNode, to: child }));
+    return graphNode;
+  };
+
+  const placeTrees = (ids: string[], isUnattached: boolean) => {
+    for (const id of ids) {
+      if (place(id, 0, isUnattached) && row > 0) row += ROOT_GAP_ROWS;
+    }
+  };
+  const rootIds = getVisibleRootIds(state);
+  placeTrees(rootIds, false);
+  placeTrees(state.unattachedIds, true);
+
+  return {
+    nodes: graphNodes,
+    edges,
+    width: maxDepth * GRAPH_COLUMN_WIDTH + GRAPH_COLUMN_WIDTH,
+    height: Math.max(row - ROOT_GAP_ROWS, 1) * GRAPH_ROW_HEIGHT,
+    rootIds,
+    unattachedIds: state.unattachedIds,
+    childIds,
+  };
+};
@@ -0,0 +1,135 @@
+import { ResearchNode, Role } from '../types';
+import { ChunkLogEntry, ResearchTreeState, applyChunks, createEmptyTree } from './researchTree';
+
+/**
+ * Helpers for replaying a recorded chunk log ("time travel"): the tree at any point of a run is
+ * the reducer applied to the first `position` chunks of the log. The log only records chunks, so
+ * runs that were over by then are finished the way the live tree finished them (see `settleEndedRuns`).
+ */
+
+// Idle stretches longer than this are shortened during playback
+const MAX_IDLE_MS = 2000;
+// Playback spacing for chunks that share an arrival time (e.g. loaded from history)
+const SAME_TIME_STEP_MS = 60;
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+/**
+ * The tree as it was after the first `position` chunks of the log.
+ * Pass the state at `from` to only apply the chunks in between.
+ */
+export const buildTreeAt = (
+  log: readonly ChunkLogEntry[],
+  position: number,
+  from: { state: ResearchTreeState; position: number } = { state: createEmptyTree(), position: 0 }
+): ResearchTreeState => applyChunks(from.state, log.slice(from.position, position));
+
+/**
+ * Which run (attempt, by prompt id) each node of the live tree belongs to, and the log position
+ * at which each run's last chunk has been applied.
+ */
+export interface ReplayRuns {
+  attemptOf: Map<string, string>;
+  runEnds: Map<string, number>;
+}
+
+/**
+ * Indexes the runs of a chunk log against the live tree it built: an attempt is a prompt and the
+ * top-level nodes up to the next prompt, with everything under them.
+ */
+export const indexReplayRuns = (log: readonly ChunkLogEntry[], live: ResearchTreeState): ReplayRuns => {
+  const attemptOf = new Map<string, string>();
+  let promptId: string | undefined;
+  for (const rootId of live.rootIds) {
+    if (!promptId || live.nodes.get(rootId)?.role === Role.HUMAN) promptId = rootId;
+    attemptOf.set(rootId, promptId);
+  }
+
+  // Nodes inherit their root's attempt; orphans whose parent never arrived belong to none
+  const resolve = (nodeId: string, seen: Set<string>): string | undefined => {
+    if (attemptOf.has(nodeId)) return attemptOf.get(nodeId);
+    const parentId = live.nodes.get(nodeId)?.parentId;
+    if (!parentId || seen.has(parentId)) return undefined;
+    seen.add(nodeId);
+    const attempt = resolve(parentId, seen);
+    if (attempt) attemptOf.set(nodeId, attempt);
+    return attempt;
+  };
+  for (const nodeId of live.nodes.keys()) resolve(nodeId, new Set());
+
+  const runEnds = new Map<string, number>();
+  log.forEach((entry, index) => {
+    const attempt = attemptOf.get(entry.chunk.id || entry.fallbackId || 'unknown');
+    if (attempt) runEnds.set(attempt, index + 1);
+  });
+  return { attemptOf, runEnds };
+};
+
+/**
+ * Finishes the runs of a replayed tree whose chunks have all been applied by `position` like the live
+ * tree finished them: their nodes take their live status (settled, cancelled or interrupted), prompts
+ * their backend message, and prompts whose attempts all exist show the attempt shown live.
+ */
+export const settleEndedRuns = (
+  state: ResearchTreeState,
+  live: ResearchTreeState,
+  { attemptOf, runEnds }: ReplayRuns,
+  position: number
+): ResearchTreeState => {
+  let nodes: Map<string, ResearchNode> | null = null;
+  for (const [nodeId, node] of state.nodes) {
+    const attempt = attemptOf.get(nodeId);
+    const liveNode = live.nodes.get(nodeId);
+    if (!attempt || !liveNode || (runEnds.get(attempt) ?? 0) > position) continue;
+    if (node.status === liveNode.status && node.messageUuid === liveNode.messageUuid) continue;
+    nodes = nodes || new Map(state.nodes);
+    nodes.set(nodeId, { ...node, status: liveNode.status, completedAt: liveNode.completedAt, messageUuid: liveNode.messageUuid });
+  }
+
+  let alternatives: ResearchTreeState['alternatives'] | null = null;
+  for (const [groupId, group] of state.alternatives) {
+    const liveGroup = live.alternatives.get(groupId);
+    if (!liveGroup || liveGroup.attemptIds.length !== group.attemptIds.length || liveGroup.activeIndex === group.activeIndex) continue;
+    alternatives = alternatives || new Map(state.alternatives);
+    alternatives.set(groupId, { ...group, activeIndex: liveGroup.activeIndex });
+  }
+
+  return nodes || alternatives
+    ? { ...state, nodes: nodes || state.nodes, alternatives: alternatives || state.alternatives }
+    : state;
+};
+
+/**
+ * Playback offsets: `timeline[i]` is when (in ms from the start of playback at 1x) the tree shows
+ * the first `i` chunks. Follows arrival times, with long idle gaps capped and simultaneous chunks spread out.
+ */
+export const buildReplayTimeline = (log: readonly ChunkLogEntry[]): number[] => {
+  const timeline = [0];
+  for (let index = 0; index < log.length; index++) {
+    const gap = index === 0 ? 0 : log[index].receivedAt - log[index - 1].receivedAt;
+    const step = gap > 0 ? Math.min(gap, MAX_IDLE_MS) : SAME_TIME_STEP_MS;
+    timeline.push(timeline[index] + (index === 0 ? 0 : step));
+  }
+  return timeline;
+};
+
+/**
+ * The log position reached at playback time `time`: the number of chunks whose offset is at or before it.
+ */
+export const positionAtTime = (timeline: number[], time: number): number => {
+  let lo = 0;
+  let hi = timeline.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (timeline[mid] <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+export const formatReplayTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
@@ -0,0 +1,10 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Re-sends a prompt node with the given text ("edit & rerun", or "regenerate" with the same text);
+ * the run becomes a new attempt of that prompt (see Visualization).
+ * Null while a run is in progress and where nothing can be sent, e.g. read-only imported sessions.
+ */
+export const RerunContext = createContext<((nodeId: string, prompt: string) => void) | null>(null);
+
+export const useRerun = () => useContext(RerunContext);
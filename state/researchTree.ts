@@ -0,0 +1,472 @@
+import { ChunkMessage, DisplayMessage, MessageEntity, MessageType, ResearchNode, Role } from '../types';
+
+/**
+ * The visualization tree: every node by id, plus the ids of the top-level nodes in arrival order.
+ * States are immutable; every update returns a new state and only the nodes it touched are new objects.
+ */
+export interface ResearchTreeState {
+  nodes: Map<string, ResearchNode>;
+  rootIds: string[];
+  /** Children that arrived before their parent, keyed by the missing parent id. */
+  pendingChildren: Map<string, string[]>;
+  /** Orphans whose parent never arrived before the stream ended, shown in a separate group. */
+  unattachedIds: string[];
+  /** Attempts of re-sent prompts, keyed by the first attempt's prompt id. */
+  alternatives: Map<string, PromptAlternatives>;
+}
+
+/**
+ * The attempts of one prompt (the original, then every edit & rerun or regenerate) and the one
+ * that is shown. An attempt is its prompt node plus the top-level nodes that follow it.
+ */
+export interface PromptAlternatives {
+  attemptIds: string[];
+  activeIndex: number;
+}
+
+export interface ApplyChunkOptions {
+  /** Node id to use when the chunk has none (history uses `${message_uuid}_${index}`). */
+  fallbackId?: string;
+  /** Arrival time of the chunk, stored as the node's timestamp when it creates the node. */
+  receivedAt?: number;
+  /** The chunk has no real arrival time (history): the node's timing fields are left alone. */
+  untimed?: boolean;
+  /** The chunk creates a prompt that re-sends the given prompt: it becomes its newest attempt. */
+  alternativeOf?: string;
+  /** The chunk creates a follow-up prompt referring to the given node (see `ResearchNode.anchor`). */
+  anchor?: ResearchNode['anchor'];
+  /** The backend message the chunk belongs to, recorded on the prompts it creates (history). */
+  messageUuid?: string;
+}
+
+/** A chunk queued for batch application, with the options it was received with. */
+export interface QueuedChunk extends ApplyChunkOptions {
+  chunk: ChunkMessage;
+}
+
+/** A chunk as recorded in a session's chunk log: every applied chunk with its arrival time. */
+export interface ChunkLogEntry extends QueuedChunk {
+  receivedAt: number;
+}
+
+export const createEmptyTree = (): ResearchTreeState => ({
+  nodes: new Map(),
+  rootIds: [],
+  pendingChildren: new Map(),
+  unattachedIds: [],
+  alternatives: new Map(),
+});
+
+const isFinalType = (type: ChunkMessage['type'] | undefined) => type === MessageType.FINAL;
+
+/**
+ * Mutable working copy used while applying a batch. The node map is copied once per batch and
+ * each touched node is cloned at most once, so untouched nodes keep their identity.
+ */
+interface Draft extends ResearchTreeState {
+  cloned: Set<string>;
+}
+
+const writableNode = (draft: Draft, nodeId: string): ResearchNode | undefined => {
+  const node = draft.nodes.get(nodeId);
+  if (!node || draft.cloned.has(nodeId)) return node;
+  const copy = { ...node };
+  draft.nodes.set(nodeId, copy);
+  draft.cloned.add(nodeId);
+  return copy;
+};
+
+// The top-level nodes grouped into turns: a prompt and the top-level nodes up to the next prompt
+const getTurns = (state: Pick<ResearchTreeState, 'nodes' | 'rootIds'>): string[][] => {
+  const turns: string[][] = [];
+  for (const id of state.rootIds) {
+    if (turns.length === 0 || state.nodes.get(id)?.role === Role.HUMAN) turns.push([id]);
+    else turns[turns.length - 1].push(id);
+  }
+  return turns;
+};
+
+// The turn each turn continues, by first node (null for the first turn): the turn sent before it,
+// except that a later attempt of a prompt continues the same turn as the prompt's first attempt
+const getTurnParents = (state: Pick<ResearchTreeState, 'nodes' | 'rootIds'>, turns = getTurns(state)): Map<string, string | null> => {
+  const parents = new Map<string, string | null>();
+  let previous: string | null = null;
+  for (const [headId] of turns) {
+    const groupId = state.nodes.get(headId)?.alternativeOf;
+    parents.set(headId, groupId && parents.has(groupId) ? parents.get(groupId)! : previous);
+    previous = headId;
+  }
+  return parents;
+};
+
+// The prompt groups with the attempts on the way to the turn starting with `headId` shown
+const showTurn = (
+  state: Pick<ResearchTreeState, 'nodes' | 'rootIds' | 'alternatives'>,
+  headId: string
+): Map<string, PromptAlternatives> => {
+  const parents = getTurnParents(state);
+  let alternatives = state.alternatives;
+  for (let id: string | null | undefined = headId; id; id = parents.get(id)) {
+    const groupId = state.nodes.get(id)?.alternativeOf || id;
+    const group = alternatives.get(groupId);
+    const index = group ? group.attemptIds.indexOf(id) : -1;
+    if (!group || index === -1 || index === group.activeIndex) continue;
+    alternatives = new Map(alternatives).set(groupId, { ...group, activeIndex: index });
+  }
+  return alternatives;
+};
+
+/** Records a new attempt of the prompt `alternativeOf` (or of its group) and shows it. */
+const addAlternative = (draft: Draft, node: ResearchNode, alternativeOf: string) => {
+  const groupId = draft.nodes.get(alternativeOf)?.alternativeOf || alternativeOf;
+  if (groupId === node.id) return;
+  node.alternativeOf = groupId;
+  const attemptIds = [...(draft.alternatives.get(groupId)?.attemptIds || [groupId]), node.id];
+  draft.alternatives = new Map(draft.alternatives).set(groupId, { attemptIds, activeIndex: attemptIds.length - 1 });
+};
+
+const applyToDraft = (draft: Draft, { chunk, fallbackId = 'unknown', receivedAt = Date.now(), untimed = false, alternativeOf, anchor, messageUuid }: QueuedChunk) => {
+  const { id, parent_id, role, name, message, type } = chunk;
+  const nodeId = id || fallbackId;
+  // A node can't be its own parent; treat that as a root rather than parking it forever
+  const parentId = parent_id && parent_id !== nodeId ? parent_id : null;
+
+  let node = writableNode(draft, nodeId);
+
+  if (!node) {
+    node = {
+      id: nodeId,
+      parentId,
+      role,
+      name: name || (role === Role.HUMAN ? 'User' : 'Unknown'),
+      content: '',
+      children: [],
+      status: 'streaming',
+      timestamp: receivedAt,
+      toolArgs: '',
+      toolResult: '',
+      isFinal: false,
+    };
+    if (anchor && role === Role.HUMAN) node.anchor = anchor;
+    if (messageUuid && role === Role.HUMAN) node.messageUuid = messageUuid;
+    draft.nodes.set(nodeId, node);
+    draft.cloned.add(nodeId);
+
+    if (parentId) {
+      const parent = writableNode(draft, parentId);
+      if (parent) {
+        if (!parent.children.includes(nodeId)) {
+          parent.children = [...parent.children, nodeId];
+        }
+      } else {
+        // Parent hasn't arrived yet (out-of-order sub-agents): park the child until it does
+        draft.pendingChildren.set(parentId, [...(draft.pendingChildren.get(parentId) || []), nodeId]);
+      }
+    } else if (!draft.rootIds.includes(nodeId)) {
+      draft.rootIds.push(nodeId);
+      if (alternativeOf && role === Role.HUMAN) addAlternative(draft, node, alternativeOf);
+      if (role === Role.HUMAN) draft.alternatives = showTurn(draft, nodeId);
+    }
+
+    // Adopt children that were waiting for this node, including ones already given up on
+    const waiting = draft.pendingChildren.get(nodeId) || [];
+    const adopted = draft.unattachedIds.filter(childId => draft.nodes.get(childId)?.parentId === nodeId);
+    draft.pendingChildren.delete(nodeId);
+    if (adopted.length > 0) {
+      draft.unattachedIds = draft.unattachedIds.filter(childId => !adopted.includes(childId));
+    }
+    const orphans = [...waiting, ...adopted].filter(childId => !node!.children.includes(childId));
+    if (orphans.length > 0) {
+      node.children = [...node.children, ...orphans];
+    }
+  }
+
+  if (!untimed) {
+    node.lastChunkAt = receivedAt;
+    node.chunkCount = (node.chunkCount || 0) + 1;
+  }
+
+  const text = message || '';
+  if (role === Role.TOOL) {
+    node.toolResult = (node.toolResult || '') + text;
+    node.status = 'completed';
+    if (!untimed) node.completedAt = receivedAt;
+  } else if (role === Role.TOOL_CALL) {
+    node.toolArgs = (node.toolArgs || '') + text;
+  } else {
+    node.content = (node.content || '') + text;
+  }
+
+  // STRICT CHECK: Only mark as final if message type is strictly 'final'
+  if (isFinalType(type)) {
+    node.status = role === Role.ERROR ? 'error' : 'completed';
+    node.isFinal = true;
+    if (!untimed) node.completedAt = receivedAt;
+  }
+};
+
+/**
+ * Applies a batch of chunks in order and returns the new state.
+ * - The first chunk for an id creates the node and links it to its parent (or makes it a root).
+ *   Children whose parent hasn't arrived yet are parked in `pendingChildren` until it does.
+ * - Every chunk appends its message: tool results to `toolResult`, tool calls to `toolArgs`,
+ *   everything else to `content`.
+ * - A `final` chunk completes the node and marks it as the final report.
+ * - A prompt created with `alternativeOf` becomes the newest attempt of that prompt. Every new
+ *   prompt is shown, with the attempts of the turns it continues (see `getVisibleRootIds`).
+ * - A prompt created with `anchor` records the node it follows up on.
+ * - Timed chunks record the node's latest arrival, chunk count and completion time.
+ */
+export const applyChunks = (state: ResearchTreeState, batch: QueuedChunk[]): ResearchTreeState => {
+  if (batch.length === 0) return state;
+
+  const draft: Draft = {
+    nodes: new Map(state.nodes),
+    rootIds: [...state.rootIds],
+    pendingChildren: new Map(state.pendingChildren),
+    unattachedIds: state.unattachedIds,
+    alternatives: state.alternatives,
+    cloned: new Set(),
+  };
+
+  batch.forEach(entry => applyToDraft(draft, entry));
+
+  return {
+    nodes: draft.nodes,
+    rootIds: draft.rootIds.length === state.rootIds.length ? state.rootIds : draft.rootIds,
+    pendingChildren: draft.pendingChildren,
+    unattachedIds: draft.unattachedIds,
+    alternatives: draft.alternatives,
+  };
+};
+
+/**
+ * Applies one chunk to the tree and returns the new state. See `applyChunks`.
+ */
+export const applyChunk = (
+  state: ResearchTreeState,
+  chunk: ChunkMessage,
+  options: ApplyChunkOptions = {}
+): ResearchTreeState => applyChunks(state, [{ chunk, ...options }]);
+
+/** Shows the attempt at `index` of the prompt group `groupId`. */
+export const selectAlternative = (state: ResearchTreeState, groupId: string, index: number): ResearchTreeState => {
+  const group = state.alternatives.get(groupId);
+  if (!group || index < 0 || index >= group.attemptIds.length || index === group.activeIndex) return state;
+  return { ...state, alternatives: new Map(state.alternatives).set(groupId, { ...group, activeIndex: index }) };
+};
+
+/**
+ * Rebuilds the prompt groups from the nodes' `alternativeOf` (e.g. for a restored snapshot):
+ * attempts in top-level order, showing the ones on the way to the last turn.
+ */
+export const collectAlternatives = (nodes: Map<string, ResearchNode>, rootIds: string[]): Map<string, PromptAlternatives> => {
+  const alternatives = new Map<string, PromptAlternatives>();
+  for (const id of rootIds) {
+    const groupId = nodes.get(id)?.alternativeOf;
+    if (!groupId || !nodes.has(groupId)) continue;
+    const attemptIds = [...(alternatives.get(groupId)?.attemptIds || [groupId]), id];
+    alternatives.set(groupId, { attemptIds, activeIndex: attemptIds.length - 1 });
+  }
+  const turns = getTurns({ nodes, rootIds });
+  return turns.length > 0 ? showTurn({ nodes, rootIds, alternatives }, turns[turns.length - 1][0]) : alternatives;
+};
+
+/**
+ * The top-level nodes to show: the turns (a prompt and the top-level nodes up to the next prompt)
+ * on one branch of the conversation. Each turn continues the one sent before it, except that a
+ * re-sent prompt starts a new branch from where its first attempt was sent; where a prompt has
+ * several attempts, only the shown one is followed. So the turns that followed a replaced attempt
+ * are hidden with it. Returns `rootIds` itself when no prompt was re-sent.
+ */
+export const getVisibleRootIds = (state: ResearchTreeState): string[] => {
+  if (state.alternatives.size === 0) return state.rootIds;
+
+  const turns = getTurns(state);
+  const parents = getTurnParents(state, turns);
+  const continuations = new Map<string | null, string[][]>();
+  for (const turn of turns) {
+    const parentId = parents.get(turn[0])!;
+    continuations.set(parentId, [...(continuations.get(parentId) || []), turn]);
+  }
+
+  // Only the attempts of one prompt continue the same turn
+  const visible: string[] = [];
+  for (let next = continuations.get(null); next; ) {
+    const group = state.alternatives.get(next[0][0]);
+    const shownId = group?.attemptIds[group.activeIndex];
+    const turn = next.find(([headId]) => headId === shownId) || next[0];
+    visible.push(...turn);
+    next = continuations.get(turn[0]);
+  }
+  return visible;
+};
+
+/**
+ * Records the backend message of the run a prompt started (live prompts are shown before it is known).
+ */
+export const setPromptMessageUuid = (state: ResearchTreeState, promptId: string, messageUuid: string): ResearchTreeState => {
+  const prompt = state.nodes.get(promptId);
+  if (!prompt || prompt.messageUuid === messageUuid) return state;
+  return { ...state, nodes: new Map(state.nodes).set(promptId, { ...prompt, messageUuid }) };
+};
+
+/**
+ * Whether the run of the prompt `promptId` is over: nothing in its attempt (the prompt and the
+ * top-level nodes up to the next prompt, with everything under them) is still streaming or interrupted.
+ */
+export const isAttemptSettled = (state: ResearchTreeState, promptId: string): boolean => {
+  const start = state.rootIds.indexOf(promptId);
+  if (start === -1) return false;
+  const pending = [promptId];
+  for (const id of state.rootIds.slice(start + 1)) {
+    if (state.nodes.get(id)?.role === Role.HUMAN) break;
+    pending.push(id);
+  }
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    const nodeId = pending.pop()!;
+    const node = state.nodes.get(nodeId);
+    if (!node || visited.has(nodeId)) continue;
+    visited.add(nodeId);
+    if (node.status === 'streaming' || node.status === 'interrupted') return false;
+    pending.push(...node.children);
+  }
+  return true;
+};
+
+// Gives the nodes in one of the `from` statuses (only those in `nodeIds`, when given) the status
+// `to`, ending them as of their last chunk unless they go back to streaming. Error nodes end as 'error'.
+const changeStatus = (
+  state: ResearchTreeState,
+  from: ResearchNode['status'][],
+  to: ResearchNode['status'],
+  nodeIds?: ReadonlySet<string>
+): ResearchTreeState => {
+  let nodes: Map<string, ResearchNode> | null = null;
+
+  for (const [key, node] of state.nodes) {
+    if (!from.includes(node.status) || (nodeIds && !nodeIds.has(key))) continue;
+    nodes = nodes || new Map(state.nodes);
+    nodes.set(key, to === 'streaming'
+      ? { ...node, status: to, completedAt: undefined }
+      : { ...node, status: node.role === Role.ERROR ? 'error' : to, completedAt: node.lastChunkAt });
+  }
+
+  return nodes ? { ...state, nodes } : state;
+};
+
+/**
+ * Marks nodes still streaming or interrupted as 'cancelled' (the run was stopped or given up on),
+ * as of their last chunk. Error nodes become 'error' as when settling. With `nodeIds`, only those
+ * nodes are touched.
+ */
+export const cancelStreamingNodes = (state: ResearchTreeState, nodeIds?: ReadonlySet<string>): ResearchTreeState =>
+  changeStatus(state, ['streaming', 'interrupted'], 'cancelled', nodeIds);
+
+/**
+ * Marks nodes still streaming as 'interrupted': their run stopped without finishing and can
+ * still be resumed. Otherwise like `cancelStreamingNodes`.
+ */
+export const interruptStreamingNodes = (state: ResearchTreeState, nodeIds?: ReadonlySet<string>): ResearchTreeState =>
+  changeStatus(state, ['streaming'], 'interrupted', nodeIds);
+
+/** Puts interrupted nodes back to 'streaming' while their run is resumed. */
+export const resumeInterruptedNodes = (state: ResearchTreeState): ResearchTreeState =>
+  changeStatus(state, ['interrupted'], 'streaming');
+
+/**
+ * Settles the tree once its stream is over:
+ * - every node still marked as streaming becomes 'error' (error nodes, or all of them when the
+ *   stream failed) or 'completed', completed as of its last chunk;
+ * - children still waiting for a parent move to `unattachedIds` so they stay visible.
+ *   They are re-attached if their parent shows up later (e.g. a resumed stream).
+ */
+export const settleStreamingNodes = (state: ResearchTreeState, failed = false): ResearchTreeState => {
+  let nodes: Map<string, ResearchNode> | null = null;
+
+  for (const [key, node] of state.nodes) {
+    if (node.status !== 'streaming') continue;
+    nodes = nodes || new Map(state.nodes);
+    const status = failed || node.role === Role.ERROR ? 'error' : 'completed';
+    nodes.set(key, { ...node, status, completedAt: node.lastChunkAt });
+  }
+
+  if (state.pendingChildren.size > 0) {
+    const orphans = [...state.pendingChildren.values()].flat();
+    return {
+      ...state,
+      nodes: nodes || state.nodes,
+      pendingChildren: new Map(),
+      unattachedIds: [...state.unattachedIds, ...orphans.filter(id => !state.unattachedIds.includes(id))],
+    };
+  }
+
+  return nodes ? { ...state, nodes } : state;
+};
+
+/**
+ * Converts a stored history message into the chunk it corresponds to.
+ * History messages carry complete content, so they are applied exactly like one live chunk per node part.
+ */
+export const historyMessageToChunk = (message: DisplayMessage): ChunkMessage => ({
+  role: message.role,
+  name: message.name,
+  parent_id: message.parent_id,
+  id: message.id,
+  message: message.message,
+  type: message.type || MessageType.NEW,
+});
+
+/**
+ * The chunk log equivalent of stored conversation history, in stored order.
+ * History has no arrival times, so every entry gets `receivedAt` and is marked untimed.
+ * Prompts of messages that name the message they re-sent (`alternative_of`) become attempts of
+ * its prompt again; without it, attempts reload as separate turns.
+ */
+export const historyToChunkLog = (entities: MessageEntity[], receivedAt: number = Date.now()): ChunkLogEntry[] => {
+  const promptIds = new Map<string, string>();
+  return entities.flatMap(entity =>
+    entity.content.map((msg, index) => {
+      const nodeId = historyNodeId(entity, msg, index);
+      const isPrompt = msg.role === Role.HUMAN;
+      const alternativeOf = isPrompt && entity.alternative_of ? promptIds.get(entity.alternative_of) : undefined;
+      if (isPrompt && !promptIds.has(entity.message_uuid)) promptIds.set(entity.message_uuid, nodeId);
+      return {
+        chunk: historyMessageToChunk(msg),
+        fallbackId: nodeId,
+        receivedAt,
+        untimed: true,
+        messageUuid: entity.message_uuid,
+        alternativeOf,
+      };
+    })
+  );
+};
+
+const historyNodeId = (entity: MessageEntity, message: DisplayMessage, index: number) =>
+  message.id || `${entity.message_uuid}_${index}`;
+
+// Ids of the nodes a history message's run produced (its prompt is never left unfinished)
+const runNodeIds = (entity: MessageEntity) =>
+  entity.content.flatMap((msg, index) => (msg.role === Role.HUMAN ? [] : [historyNodeId(entity, msg, index)]));
+
+/**
+ * Rebuilds the tree from stored conversation history through the same reducer as live chunks,
+ * so a reloaded conversation renders exactly like it did while streaming. Unfinished nodes of
+ * cancelled runs stay 'cancelled', those of an interrupted last run (`thread_status` false)
+ * 'interrupted' until it is resumed or discarded.
+ */
+export const buildTreeFromHistory = (
+  entities: MessageEntity[],
+  initial: ResearchTreeState = createEmptyTree(),
+  receivedAt: number = Date.now()
+): ResearchTreeState => {
+  const state = applyChunks(initial, historyToChunkLog(entities, receivedAt));
+  const lastEntity = entities[entities.length - 1];
+  const cancelledIds = new Set(entities.filter(entity => entity.cancelled).flatMap(runNodeIds));
+  const interruptedIds = new Set(
+    lastEntity && !lastEntity.cancelled && lastEntity.thread_status === false ? runNodeIds(lastEntity) : []
+  );
+  return settleStreamingNodes(interruptStreamingNodes(cancelStreamingNodes(state, cancelledIds), interruptedIds));
+};
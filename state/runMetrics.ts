@@ -0,0 +1,156 @@
+import { ResearchNode, Role } from '../types';
+import { ChunkLogEntry, ResearchTreeState } from './researchTree';
+import { isNodeEffectivelyDone } from './flattenTree';
+
+/**
+ * Performance figures of a run, derived from the per-node timing the reducer records and from the
+ * chunk log. History carries no arrival times, so loaded conversations only get the counts.
+ */
+
+// Branches listed in the run summary
+const SLOWEST_BRANCH_COUNT = 5;
+
+export interface ToolLatency {
+  toolName: string;
+  /** Calls with a timed result. */
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface BranchTiming {
+  nodeId: string;
+  name: string;
+  /** From the agent's first chunk to the last chunk anywhere in its subtree. */
+  durationMs: number;
+  isRunning: boolean;
+}
+
+export interface RunMetrics {
+  /** False when no chunk of the run has a real arrival time (e.g. loaded from history). */
+  hasTiming: boolean;
+  wallTimeMs: number;
+  nodeCount: number;
+  toolCallCount: number;
+  /** Timed chunks, and the characters they carried. */
+  chunkCount: number;
+  charCount: number;
+  chunksPerSecond: number | null;
+  charsPerSecond: number | null;
+  toolLatencies: ToolLatency[];
+  slowestBranches: BranchTiming[];
+}
+
+/** Latest known time for the node: its completion, or else its last chunk. */
+const nodeEnd = (node: ResearchNode): number | undefined => node.completedAt ?? node.lastChunkAt;
+
+/**
+ * How long a tool took: from the call's first chunk to the completion of its result, which arrives
+ * either on the call node itself or on a `tool` child. Undefined until the result is in, or when the
+ * call has no timing.
+ */
+export const getToolLatency = (call: ResearchNode, getNode: (nodeId: string) => ResearchNode | undefined): number | undefined => {
+  if (call.role !== Role.TOOL_CALL || call.lastChunkAt === undefined) return undefined;
+  let end = call.toolResult ? call.completedAt : undefined;
+  if (end === undefined) {
+    const result = call.children.map(getNode).find(child => child?.role === Role.TOOL);
+    end = result && result.status !== 'streaming' ? nodeEnd(result) : undefined;
+  }
+  return end === undefined ? undefined : Math.max(0, end - call.timestamp);
+};
+
+/** Nearest-rank percentile of ascending `sorted`. */
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+export const computeRunMetrics = (state: ResearchTreeState, log: readonly ChunkLogEntry[]): RunMetrics => {
+  const { nodes } = state;
+  const getNode = (nodeId: string) => nodes.get(nodeId);
+
+  // Wall time and throughput from the timed part of the chunk log
+  let firstAt = Infinity;
+  let lastAt = -Infinity;
+  let chunkCount = 0;
+  let charCount = 0;
+  for (const entry of log) {
+    if (entry.untimed) continue;
+    firstAt = Math.min(firstAt, entry.receivedAt);
+    lastAt = Math.max(lastAt, entry.receivedAt);
+    chunkCount++;
+    charCount += entry.chunk.message?.length || 0;
+  }
+  const hasTiming = chunkCount > 0;
+  const wallTimeMs = hasTiming ? lastAt - firstAt : 0;
+  const seconds = wallTimeMs / 1000;
+
+  // Tool latency grouped by tool name
+  const latencies = new Map<string, number[]>();
+  let toolCallCount = 0;
+  for (const node of nodes.values()) {
+    if (node.role !== Role.TOOL_CALL) continue;
+    toolCallCount++;
+    const latency = getToolLatency(node, getNode);
+    if (latency === undefined) continue;
+    const name = node.name || 'unknown';
+    const values = latencies.get(name);
+    if (values) values.push(latency);
+    else latencies.set(name, [latency]);
+  }
+  const toolLatencies = [...latencies].map(([toolName, values]): ToolLatency => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return { toolName, count: sorted.length, p50: percentile(sorted, 50), p95: percentile(sorted, 95), max: sorted[sorted.length - 1] };
+  }).sort((a, b) => b.p95 - a.p95);
+
+  // Latest end time per subtree, computed bottom-up once (the set guards against cycles)
+  const subtreeEnds = new Map<string, number | undefined>();
+  const visiting = new Set<string>();
+  const subtreeEnd = (nodeId: string): number | undefined => {
+    if (subtreeEnds.has(nodeId)) return subtreeEnds.get(nodeId);
+    const node = nodes.get(nodeId);
+    if (!node || visiting.has(nodeId)) return undefined;
+    visiting.add(nodeId);
+    let end = nodeEnd(node);
+    for (const childId of node.children) {
+      const childEnd = subtreeEnd(childId);
+      if (childEnd !== undefined) end = end === undefined ? childEnd : Math.max(end, childEnd);
+    }
+    subtreeEnds.set(nodeId, end);
+    return end;
+  };
+
+  // Branches are the sub-agents; the top-level agent spans the whole run anyway
+  const slowestBranches = [...nodes.values()]
+    .filter(node => node.role === Role.ASSISTANT && node.parentId && node.lastChunkAt !== undefined)
+    .map((node): BranchTiming => ({
+      nodeId: node.id,
+      name: node.name,
+      durationMs: Math.max(0, (subtreeEnd(node.id) ?? node.timestamp) - node.timestamp),
+      isRunning: !isNodeEffectivelyDone(node, nodes),
+    }))
+    .sort((a, b) => b.durationMs - a.durationMs)
+    .slice(0, SLOWEST_BRANCH_COUNT);
+
+  return {
+    hasTiming,
+    wallTimeMs,
+    nodeCount: nodes.size,
+    toolCallCount,
+    chunkCount,
+    charCount,
+    chunksPerSecond: seconds > 0 ? chunkCount / seconds : null,
+    charsPerSecond: seconds > 0 ? charCount / seconds : null,
+    toolLatencies,
+    slowestBranches,
+  };
+};
+
+/**
+ * Compact duration: "850 ms", "12.3 s", "4m 05s".
+ */
+export const formatDuration = (ms: number): string => {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}m ${String(totalSeconds % 60).padStart(2, '0')}s`;
+};
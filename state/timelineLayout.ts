@@ -0,0 +1,122 @@
+import { ResearchNode, Role } from '../types';
+import { ResearchTreeState, getVisibleRootIds } from './researchTree';
+import { isNodeEffectivelyDone } from './flattenTree';
+
+/**
+ * Gantt layout of a run for the timeline view: every timed node is a bar from its first to its last
+ * chunk. Bars are grouped into one lane per agent (the agent and the tool calls and results under
+ * it; nested agents get their own lane), and packed into rows inside a lane so concurrent bars
+ * don't overlap. Lanes follow tree order.
+ */
+
+export interface TimelineBar {
+  id: string;
+  role: Role;
+  name: string;
+  /** Epoch ms of the first and last chunk. */
+  start: number;
+  end: number;
+  /** Row across all lanes. */
+  row: number;
+  status: ResearchNode['status'];
+  isDone: boolean;
+}
+
+export interface TimelineLane {
+  /** The lane's agent, or null for nodes outside any agent (the question, top-level nodes). */
+  agentId: string | null;
+  name: string;
+  /** Nesting depth of the agent, for indenting the label. */
+  depth: number;
+  firstRow: number;
+  rowCount: number;
+}
+
+export interface TimelineLayout {
+  bars: TimelineBar[];
+  lanes: TimelineLane[];
+  rowCount: number;
+  startAt: number;
+  endAt: number;
+}
+
+// Minimum gap between consecutive bars sharing a row
+const ROW_GAP_MS = 1;
+
+interface LaneDraft {
+  agentId: string | null;
+  name: string;
+  depth: number;
+  nodes: ResearchNode[];
+}
+
+export const layoutTimeline = (state: ResearchTreeState): TimelineLayout => {
+  const { nodes } = state;
+  const lanes: LaneDraft[] = [];
+  const visited = new Set<string>();
+  const topLane: LaneDraft = { agentId: null, name: '', depth: 0, nodes: [] };
+  lanes.push(topLane);
+
+  // Depth-first in tree order; agents open a lane that their non-agent descendants join
+  const visit = (nodeId: string, lane: LaneDraft, depth: number) => {
+    const node = nodes.get(nodeId);
+    if (!node || visited.has(nodeId)) return;
+    visited.add(nodeId);
+
+    let target = lane;
+    if (node.role === Role.ASSISTANT) {
+      target = { agentId: node.id, name: node.name, depth, nodes: [] };
+      lanes.push(target);
+    }
+    if (node.lastChunkAt !== undefined) target.nodes.push(node);
+    node.children.forEach(childId => visit(childId, target, target === lane ? depth : depth + 1));
+  };
+  [...getVisibleRootIds(state), ...state.unattachedIds].forEach(id => visit(id, topLane, 0));
+
+  const bars: TimelineBar[] = [];
+  const result: TimelineLane[] = [];
+  let startAt = Infinity;
+  let endAt = -Infinity;
+  let row = 0;
+
+  for (const lane of lanes) {
+    if (lane.nodes.length === 0) continue;
+    // The agent's own bar stays on the lane's first row; the rest are packed by start time
+    const agent = lane.nodes[0].id === lane.agentId ? lane.nodes[0] : undefined;
+    const others = (agent ? lane.nodes.slice(1) : lane.nodes).sort((a, b) => a.timestamp - b.timestamp);
+    const rowEnds: number[] = [];
+
+    const place = (node: ResearchNode, fixedRow?: number) => {
+      const start = node.timestamp;
+      const end = Math.max(start, node.lastChunkAt ?? start);
+      let index = fixedRow ?? rowEnds.findIndex(rowEnd => rowEnd + ROW_GAP_MS <= start);
+      if (index < 0) index = rowEnds.length;
+      rowEnds[index] = Math.max(rowEnds[index] ?? -Infinity, end);
+      startAt = Math.min(startAt, start);
+      endAt = Math.max(endAt, end);
+      bars.push({
+        id: node.id,
+        role: node.role,
+        name: node.role === Role.HUMAN ? node.content : node.name,
+        start,
+        end,
+        row: row + index,
+        status: node.status,
+        isDone: isNodeEffectivelyDone(node, nodes),
+      });
+    };
+    if (agent) place(agent, 0);
+    others.forEach(node => place(node));
+
+    result.push({ agentId: lane.agentId, name: lane.name, depth: lane.depth, firstRow: row, rowCount: rowEnds.length });
+    row += rowEnds.length;
+  }
+
+  return {
+    bars,
+    lanes: result,
+    rowCount: row,
+    startAt: bars.length > 0 ? startAt : 0,
+    endAt: bars.length > 0 ? endAt : 0,
+  };
+};
@@ -0,0 +1,104 @@
+import { ResearchNode, Role } from '../types';
+import { ResearchTreeState, getVisibleRootIds } from './researchTree';
+import { getFinalReportContent, parseToolArgs } from '../utils/nodeContent';
+
+/**
+ * Full-text search over the research tree (node content, tool arguments and tool results).
+ * Matches are counted on the text as the cards display it, so highlights line up with the results.
+ */
+
+export type SearchField = 'toolArgs' | 'toolResult' | 'content';
+
+export interface TreeMatch {
+  nodeId: string;
+  field: SearchField;
+  /** Index of the match among the matches in this node's field. */
+  occurrence: number;
+}
+
+// Nodes are replaced rather than mutated when they change, so derived values can be cached per node object
+const displayedArgsCache = new WeakMap<ResearchNode, string>();
+const matchCountCache = new WeakMap<ResearchNode, { query: string; counts: [SearchField, number][] }>();
+
+/**
+ * Tool arguments are shown pretty-printed when they are valid JSON.
+ */
+export const getDisplayedToolArgs = (node: ResearchNode): string => {
+  let text = displayedArgsCache.get(node);
+  if (text === undefined) {
+    const parsed = parseToolArgs(node);
+    text = parsed ? JSON.stringify(parsed, null, 2) : node.toolArgs || '';
+    displayedArgsCache.set(node, text);
+  }
+  return text;
+};
+
+// A card doesn't show the content of tool calls, nor content that is the final report (rendered
+// by FinalReport without highlights); only arguments decide a tool call's report, so none are needed here
+const isContentDisplayed = (node: ResearchNode) =>
+  node.role !== Role.TOOL_CALL && getFinalReportContent(node, null) !== node.content;
+
+// The fields in the order a card renders them
+const getSearchableFields = (node: ResearchNode): [SearchField, string][] => [
+  ['toolArgs', getDisplayedToolArgs(node)],
+  ['toolResult', node.toolResult || ''],
+  ['content', isContentDisplayed(node) ? node.content || '' : ''],
+];
+
+// Match counts per field; only nodes that changed since the last search with this query are searched again
+const countMatches = (node: ResearchNode, query: string): [SearchField, number][] => {
+  const cached = matchCountCache.get(node);
+  if (cached?.query === query) return cached.counts;
+  const counts = getSearchableFields(node).map(([field, text]): [SearchField, number] => [field, findOccurrences(text, query).length]);
+  matchCountCache.set(node, { query, counts });
+  return counts;
+};
+
+// The pattern of the last query, reused across the many texts searched for it
+let queryPattern: { query: string; pattern: RegExp } | null = null;
+
+const patternFor = (query: string): RegExp => {
+  if (queryPattern?.query !== query) {
+    queryPattern = { query, pattern: new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'giu') };
+  }
+  return queryPattern.pattern;
+};
+
+/**
+ * Start offsets of every case-insensitive, non-overlapping occurrence of `query` in `text`.
+ * Matched case-insensitively in place rather than on lowercased copies, whose offsets drift
+ * wherever lowercasing changes the length (e.g. "İ").
+ */
+export const findOccurrences = (text: string, query: string): number[] => {
+  if (!query || !text) return [];
+  return [...text.matchAll(patternFor(query))].map(match => match.index!);
+};
+
+/**
+ * All matches in the tree, in display order (depth-first from the roots, then the unattached group).
+ */
+export const searchTree = (state: ResearchTreeState, query: string): TreeMatch[] => {
+  const matches: TreeMatch[] = [];
+  if (!query) return matches;
+
+  const visit = (nodeId: string) => {
+    const node = state.nodes.get(nodeId);
+    if (!node) return;
+    for (const [field, count] of countMatches(node, query)) {
+      for (let occurrence = 0; occurrence < count; occurrence++) {
+        matches.push({ nodeId, field, occurrence });
+      }
+    }
+    node.children.forEach(visit);
+  };
+
+  getVisibleRootIds(state).forEach(visit);
+  state.unattachedIds.forEach(visit);
+  return matches;
+};
+
+/**
+ * Whether the node has any match (what `searchTree` would find in it), for marking single nodes.
+ */
+export const nodeHasMatches = (node: ResearchNode | undefined, query: string): boolean =>
+  !!node && !!query && countMatches(node, query).some(([, count]) => count > 0);
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { SearchField, TreeMatch } from './treeSearch';
+
+/**
+ * The find bar's query and current match, read by node cards to highlight their text.
+ */
+export interface TreeSearchState {
+  query: string;
+  activeMatch: TreeMatch | null;
+}
+
+export const TreeSearchContext = createContext<TreeSearchState>({ query: '', activeMatch: null });
+
+/**
+ * The query to highlight in a node's field, and which occurrence in it is the current match (-1 if none).
+ */
+export const useFieldHighlight = (nodeId: string, field: SearchField): { query: string; activeOccurrence: number } => {
+  const { query, activeMatch } = useContext(TreeSearchContext);
+  const isActiveField = activeMatch?.nodeId === nodeId && activeMatch.field === field;
+  return { query, activeOccurrence: isActiveField ? activeMatch.occurrence : -1 };
+};
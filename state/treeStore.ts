@@ -0,0 +1,159 @@
+import { ChunkMessage, ResearchNode } from '../types';
+import { ApplyChunkOptions, ChunkLogEntry, ResearchTreeState, applyChunks, createEmptyTree } from './researchTree';
+import { EMPTY_SOURCE_INDEX, SourceIndex, buildSourceIndex } from '../utils/sources';
+
+type Listener = () => void;
+
+/**
+ * Holds the research tree outside React state.
+ * Streamed chunks are queued and applied once per animation frame, and components subscribe
+ * either to a single node (re-rendering only when that node object changes) or to the whole tree.
+ */
+export interface TreeStore {
+  getState(): ResearchTreeState;
+  getNode(nodeId: string): ResearchNode | undefined;
+  /** Every chunk applied through `enqueue` since the last reset, in order, with its arrival time. */
+  getLog(): readonly ChunkLogEntry[];
+  /** The tree's sources by URL (see buildSourceIndex); rebuilt at most once per node change. */
+  getSourceIndex(): SourceIndex;
+  /** Queues a chunk; queued chunks are applied together on the next animation frame. */
+  enqueue(chunk: ChunkMessage, options?: ApplyChunkOptions): void;
+  /** Applies queued chunks immediately. */
+  flush(): void;
+  /** Flushes the queue, then replaces the state with `updater(state)`. */
+  update(updater: (state: ResearchTreeState) => ResearchTreeState): void;
+  /** Drops queued chunks and replaces the state (an empty tree by default) and the chunk log. */
+  reset(state?: ResearchTreeState, log?: ChunkLogEntry[]): void;
+  /** Called after every state change. */
+  subscribe(listener: Listener): () => void;
+  /** Called when the given node object changes (or, for parents, when a child's status changes). */
+  subscribeNode(nodeId: string, listener: Listener): () => void;
+  /** Asks the tree view to expand the node's ancestors and scroll it into view. */
+  revealNode(nodeId: string): void;
+  /** Called with the node id on every `revealNode` request. */
+  onReveal(listener: (nodeId: string) => void): () => void;
+}
+
+// Background tabs don't run animation frames; make sure the queue still drains
+const FALLBACK_FLUSH_MS = 250;
+
+export const createTreeStore = (initial: ResearchTreeState = createEmptyTree()): TreeStore => {
+  let state = initial;
+  let queue: ChunkLogEntry[] = [];
+  let log: ChunkLogEntry[] = [];
+  let frame: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<Listener>();
+  const nodeListeners = new Map<string, Set<Listener>>();
+  const revealListeners = new Set<(nodeId: string) => void>();
+  // Built lazily from `sourceIndexNodes`, and kept as is while no tool node changes
+  let sourceIndex = EMPTY_SOURCE_INDEX;
+  let sourceIndexNodes: ResearchTreeState['nodes'] | null = null;
+
+  const notifyNode = (nodeId: string) => {
+    nodeListeners.get(nodeId)?.forEach(listener => listener());
+  };
+
+  const commit = (next: ResearchTreeState) => {
+    const prev = state;
+    if (next === prev) return;
+    state = next;
+
+    if (next.nodes !== prev.nodes) {
+      const changed = new Set<string>();
+      for (const [nodeId, node] of next.nodes) {
+        const before = prev.nodes.get(nodeId);
+        if (before === node) continue;
+        changed.add(nodeId);
+        // Parents derive "done" from their children's status, so tell them too
+        if (node.parentId && before?.status !== node.status) changed.add(node.parentId);
+      }
+      for (const nodeId of prev.nodes.keys()) {
+        if (!next.nodes.has(nodeId)) changed.add(nodeId);
+      }
+      changed.forEach(notifyNode);
+    }
+
+    listeners.forEach(listener => listener());
+  };
+
+  const cancelScheduled = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    if (timer !== null) clearTimeout(timer);
+    frame = null;
+    timer = null;
+  };
+
+  const flush = () => {
+    cancelScheduled();
+    if (queue.length === 0) return;
+    const batch = queue;
+    queue = [];
+    for (const entry of batch) log.push(entry);
+    commit(applyChunks(state, batch));
+  };
+
+  return {
+    getState: () => state,
+    getNode: (nodeId) => state.nodes.get(nodeId),
+    getLog: () => log,
+
+    getSourceIndex() {
+      if (sourceIndexNodes !== state.nodes) {
+        sourceIndex = buildSourceIndex(state.nodes, sourceIndex);
+        sourceIndexNodes = state.nodes;
+      }
+      return sourceIndex;
+    },
+
+    enqueue(chunk, options = {}) {
+      queue.push({ chunk, ...options, receivedAt: options.receivedAt ?? Date.now() });
+      if (frame === null && timer === null) {
+        frame = requestAnimationFrame(flush);
+        timer = setTimeout(flush, FALLBACK_FLUSH_MS);
+      }
+    },
+
+    flush,
+
+    update(updater) {
+      flush();
+      commit(updater(state));
+    },
+
+    reset(next = createEmptyTree(), nextLog = []) {
+      cancelScheduled();
+      queue = [];
+      log = nextLog;
+      commit(next);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    subscribeNode(nodeId, listener) {
+      let set = nodeListeners.get(nodeId);
+      if (!set) {
+        set = new Set();
+        nodeListeners.set(nodeId, set);
+      }
+      set.add(listener);
+      return () => {
+        set!.delete(listener);
+        if (set!.size === 0) nodeListeners.delete(nodeId);
+      };
+    },
+
+    revealNode(nodeId) {
+      flush();
+      revealListeners.forEach(listener => listener(nodeId));
+    },
+
+    onReveal(listener) {
+      revealListeners.add(listener);
+      return () => { revealListeners.delete(listener); };
+    },
+  };
+};
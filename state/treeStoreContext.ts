@@ -0,0 +1,72 @@
+import { createContext, useCallback, useContext, useSyncExternalStore } from 'react';
+import { ResearchNode } from '../types';
+import { ResearchTreeState } from './researchTree';
+import { TreeStore } from './treeStore';
+import { SourceIndex } from '../utils/sources';
+
+export const TreeStoreContext = createContext<TreeStore | null>(null);
+
+export const useTreeStore = (): TreeStore => {
+  const store = useContext(TreeStoreContext);
+  if (!store) {
+    throw new Error('useTreeStore must be used inside a TreeStoreContext provider');
+  }
+  return store;
+};
+
+/**
+ * Subscribes to a single node. The component re-renders only when that node object changes.
+ */
+export const useTreeNode = (nodeId: string): ResearchNode | undefined => {
+  const store = useTreeStore();
+  const subscribe = useCallback((listener: () => void) => store.subscribeNode(nodeId, listener), [store, nodeId]);
+  return useSyncExternalStore(subscribe, () => store.getNode(nodeId));
+};
+
+/**
+ * Derives a value from a node and the store, re-evaluated whenever that node is notified
+ * (its own changes and its children's status changes). Return primitives or stable values.
+ */
+export const useTreeNodeSelector = <T,>(nodeId: string, selector: (node: ResearchNode | undefined, store: TreeStore) => T): T => {
+  const store = useTreeStore();
+  const subscribe = useCallback((listener: () => void) => store.subscribeNode(nodeId, listener), [store, nodeId]);
+  return useSyncExternalStore(subscribe, () => selector(store.getNode(nodeId), store));
+};
+
+/**
+ * Subscribes to a slice of the tree state. The selector must return a stable value
+ * (e.g. `state => state.rootIds`) so unrelated updates don't re-render.
+ * Pass `store` explicitly when calling from the component that owns the provider.
+ */
+export const useTreeSelector = <T,>(selector: (state: ResearchTreeState) => T, store?: TreeStore): T => {
+  const contextStore = useContext(TreeStoreContext);
+  const target = store || contextStore;
+  if (!target) {
+    throw new Error('useTreeSelector needs a store or a TreeStoreContext provider');
+  }
+  return useSyncExternalStore(target.subscribe, () => selector(target.getState()));
+};
+
+/**
+ * The store's source index (re-renders only when a tool node changes).
+ */
+export const useSourceIndex = (store?: TreeStore): SourceIndex => {
+  const contextStore = useContext(TreeStoreContext);
+  const target = store || contextStore;
+  if (!target) {
+    throw new Error('useSourceIndex needs a store or a TreeStoreContext provider');
+  }
+  return useSyncExternalStore(target.subscribe, target.getSourceIndex);
+};
+
+/**
+ * The number of chunks in the store's chunk log (re-renders as chunks are applied).
+ */
+export const useChunkLogLength = (store?: TreeStore): number => {
+  const contextStore = useContext(TreeStoreContext);
+  const target = store || contextStore;
+  if (!target) {
+    throw new Error('useChunkLogLength needs a store or a TreeStoreContext provider');
+  }
+  return useSyncExternalStore(target.subscribe, () => target.getLog().length);
+};
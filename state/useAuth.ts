@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { AuthState, AuthStore, authStore } from '../services/auth';
+
+/**
+ * The signed-in session and whether it needs re-authentication; re-renders on sign-in/out and 401s.
+ */
+export const useAuth = (store: AuthStore = authStore): AuthState =>
+  useSyncExternalStore(store.subscribe, store.getState);
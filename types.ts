@@ -31,6 +31,28 @@ export interface ChunkMessage {
   type: MessageType;         // Action type (new, append, final)
 }
 
+/**
+ * A chunk as delivered by a threading transport, together with the
+ * event-stream metadata it arrived with (when the wire protocol has any).
+ */
+export interface ThreadingEvent {
+  chunk: ChunkMessage;
+  id?: string;    // Event ID (SSE `id:` field)
+  event: string;  // Event type (SSE `event:` field), 'message' by default
+}
+
+/**
+ * A structured report of stream data that could not be turned into a chunk.
+ */
+export interface StreamDiagnostic {
+  kind: 'invalid_json' | 'invalid_chunk';
+  message: string;
+  raw: string;         // The offending payload
+  eventId?: string;
+  eventType?: string;
+  timestamp: number;
+}
+
 /**
  * DTO for starting a new chat completion.
  */
@@ -38,6 +60,16 @@ export interface ChatDTO {
   conversion_uuid?: string | null; // UUID for the conversation history context
   prompt: string;
   user_id?: string;
+  anchor_node_id?: string | null; // Node a follow-up refers to (its context is quoted in the prompt)
+  forked_from?: string | null;    // Conversation a new conversation branches from
+  alternative_of?: string | null; // Message whose prompt this one re-sends (edit & rerun): branch from before it
+}
+
+/**
+ * DTO for cancelling a running message on the backend.
+ */
+export interface CancelDTO {
+  message_uuid: string;
 }
 
 /**
@@ -45,6 +77,19 @@ export interface ChatDTO {
  */
 export interface ThreadingDTO {
   message_uuid: string; // The root message ID returned by the completion endpoint
+  last_event_id?: string; // Resume point when reconnecting (transports without a Last-Event-ID header)
+}
+
+/**
+ * Connection state of a threading stream, reported while it is consumed.
+ * 'reconnecting' means the stream dropped before the run finished and a new
+ * connection for the same message_uuid is scheduled.
+ */
+export interface StreamConnectionStatus {
+  state: 'connecting' | 'open' | 'reconnecting';
+  attempt: number;    // Reconnect attempt number, 0 for the first connection
+  delayMs?: number;   // Backoff before the next attempt (state 'reconnecting')
+  reason?: string;    // Why the previous connection ended (state 'reconnecting')
 }
 
 /**
@@ -63,8 +108,22 @@ export interface ResearchNode {
   toolResult?: string; // Output/Result of a tool (Role.TOOL)
   
   children: string[]; // List of child Node IDs (Adjacency list for the tree)
-  status: 'streaming' | 'completed' | 'error';
-  timestamp: number;
+  status: 'streaming' | 'completed' | 'error' | 'cancelled' | 'interrupted';
+  timestamp: number; // Arrival of the node's first chunk
+
+  // Timing (epoch ms) from chunk arrival times; unset for history, which has none
+  lastChunkAt?: number; // Arrival of the latest chunk
+  completedAt?: number; // When the node completed or failed
+  chunkCount?: number;  // Number of chunks applied to the node
+
+  // Prompts re-sent by "edit & rerun" or "regenerate": id of the first attempt's prompt
+  alternativeOf?: string;
+  // Prompts: the backend message of the run the prompt started, once known
+  messageUuid?: string;
+
+  // Follow-ups: the node the question refers to, labelled as when it was asked (the quoted
+  // context goes to the backend only, the card shows the question as typed)
+  anchor?: { nodeId: string; label: string };
   
   // Special Flag
   isFinal?: boolean; // If true, renders the "Final Research Report" card
@@ -78,6 +137,19 @@ export interface ConversionVO {
   create_time: string;
   update_time: string;
   user_id: string;
+  forked_from?: string | null;         // Origin of a fork, for backends that track it
+  forked_from_node_id?: string | null;
+  thread_status?: boolean | null;      // Status of the latest message, for backends that report it (false: interrupted)
+  cancelled?: boolean | null;          // The latest message was cancelled
+}
+
+/**
+ * Filters for the conversation list. Dates are local calendar days (YYYY-MM-DD), both inclusive.
+ */
+export interface HistoryFilter {
+  keyword?: string;
+  startDate?: string;
+  endDate?: string;
 }
 
 export interface PaginationResponse<T> {
@@ -108,4 +180,6 @@ export interface MessageEntity {
   content: DisplayMessage[]; 
   role: string;
   thread_status?: boolean | null; // false indicates an incomplete/interrupted stream
+  cancelled?: boolean | null;     // true when the run was stopped through /chat/cancel
+  alternative_of?: string | null; // Message whose prompt this one re-sent (the request's `alternative_of`), when reported
 }
\ No newline at end of file
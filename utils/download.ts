@@ -0,0 +1,28 @@
+/**
+ * Saves text content as a file through a temporary object URL.
+ */
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Turns a title into a safe file name stem (keeps CJK characters).
+ */
+export const toFileStem = (title: string, fallback = 'export') => {
+  const stem = title
+    .trim()
+    .replace(/[\\/:*?"<>|#\s]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 80);
+  return stem || fallback;
+};
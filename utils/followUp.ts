@@ -0,0 +1,56 @@
+import { ResearchNode, Role } from '../types';
+import { ResearchTreeState } from '../state/researchTree';
+import { getDisplayedToolArgs } from '../state/treeSearch';
+import { getFinalReportContent, parseToolArgs } from './nodeContent';
+import { t } from '../i18n';
+
+/**
+ * Follow-ups anchored to a node: the request quotes the node's content in front of the question,
+ * so any backend gets the context, and the node id travels along for backends that can use it.
+ * The prompt card shows only the question, with a reference to the node.
+ */
+
+/** The node a composed follow-up refers to; `fork` sends it as a new conversation. */
+export interface FollowUpTarget {
+  nodeId: string;
+  fork: boolean;
+}
+
+// Quoted context is cut to this many characters
+const CONTEXT_LIMIT = 4000;
+
+/**
+ * The text a follow-up on this node refers to: the final report, the tool result, the tool call
+ * (name and arguments) or the node's content.
+ */
+export const getNodeContextText = (node: ResearchNode): string => {
+  const report = getFinalReportContent(node, parseToolArgs(node));
+  if (report) return report;
+  if (node.toolResult) return node.toolResult;
+  if (node.role === Role.TOOL_CALL) return `${node.name}(${getDisplayedToolArgs(node)})`;
+  return node.content;
+};
+
+/** Short label of the node for the composer and the fork record: its name and role. */
+export const getNodeLabel = (node: ResearchNode): string =>
+  node.role === Role.HUMAN ? node.content.trim().split('\n')[0].slice(0, 80) : `${node.name} (${node.role})`;
+
+/** The first question of the session, quoted in forks that start without the conversation's history. */
+export const getOriginalQuestion = (state: ResearchTreeState): string | undefined =>
+  state.rootIds.map(id => state.nodes.get(id)).find(node => node?.role === Role.HUMAN)?.content;
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+
+/**
+ * The prompt sent to the backend for a follow-up: the quoted node context (and, for forks, the
+ * original question), then the question itself. The scaffolding is in the interface language.
+ */
+export const buildFollowUpPrompt = (question: string, node: ResearchNode, originalQuestion?: string): string => {
+  const context = getNodeContextText(node).trim();
+  const excerpt = context.length > CONTEXT_LIMIT ? `${context.slice(0, CONTEXT_LIMIT)}…` : context;
+  const parts: string[] = [];
+  if (originalQuestion) parts.push(`${t('followUp.prompt.original')}\n${quote(originalQuestion.trim())}`);
+  parts.push(`${t('followUp.prompt.regarding', { label: getNodeLabel(node) })}\n${quote(excerpt)}`);
+  parts.push(question.trim());
+  return parts.join('\n\n');
+};
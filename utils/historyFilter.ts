@@ -0,0 +1,74 @@
+import { ConversionVO, HistoryFilter } from '../types';
+
+/**
+ * Client-side helpers for the conversation list: the counterpart of the `/conversion/list` filters,
+ * applied to loaded conversations so filtering works even when the backend ignores the query
+ * parameters, and grouping by date.
+ */
+
+export const isFilterActive = (filter: HistoryFilter) => !!(filter.keyword || filter.startDate || filter.endDate);
+
+// 'YYYY-MM-DD' as a local calendar day; `endOfDay` gives its last millisecond
+const parseDay = (day: string, endOfDay = false): number | null => {
+  const match = day.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+/**
+ * Whether a conversation passes the filter: its title contains the keyword (case-insensitive)
+ * and its last update falls within the date range.
+ */
+export const matchesHistoryFilter = (conversation: ConversionVO, filter: HistoryFilter): boolean => {
+  const keyword = filter.keyword?.trim().toLowerCase();
+  if (keyword && !(conversation.title || '').toLowerCase().includes(keyword)) return false;
+
+  if (filter.startDate || filter.endDate) {
+    const time = new Date(conversation.update_time || conversation.create_time).getTime();
+    if (Number.isNaN(time)) return false;
+    const start = filter.startDate ? parseDay(filter.startDate) : null;
+    const end = filter.endDate ? parseDay(filter.endDate, true) : null;
+    if (start !== null && time < start) return false;
+    if (end !== null && time > end) return false;
+  }
+
+  return true;
+};
+
+export type HistoryGroupKey = 'today' | 'yesterday' | 'previous7Days' | 'older';
+
+export interface HistoryGroup {
+  key: HistoryGroupKey;
+  items: ConversionVO[];
+}
+
+export const getConversationTime = (conversation: ConversionVO): number => {
+  const time = new Date(conversation.update_time || conversation.create_time).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * Groups conversations by last update (local days): today, yesterday, the 7 days before that, older.
+ * Groups are in that order, newest first within each; empty groups are omitted.
+ */
+export const groupConversationsByDate = (conversations: ConversionVO[], now: Date = new Date()): HistoryGroup[] => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const startOfYesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1).getTime();
+  const startOfWeek = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 7).getTime();
+
+  const groups: Record<HistoryGroupKey, ConversionVO[]> = { today: [], yesterday: [], previous7Days: [], older: [] };
+  const sorted = [...conversations].sort((a, b) => getConversationTime(b) - getConversationTime(a));
+  for (const conversation of sorted) {
+    const time = getConversationTime(conversation);
+    if (time >= startOfToday) groups.today.push(conversation);
+    else if (time >= startOfYesterday) groups.yesterday.push(conversation);
+    else if (time >= startOfWeek) groups.previous7Days.push(conversation);
+    else groups.older.push(conversation);
+  }
+
+  return (Object.keys(groups) as HistoryGroupKey[])
+    .filter(key => groups[key].length > 0)
+    .map(key => ({ key, items: groups[key] }));
+};
@@ -0,0 +1,16 @@
+import gfm from '@bytemd/plugin-gfm';
+import highlight from '@bytemd/plugin-highlight';
+import { getProcessor } from 'bytemd';
+
+/** ByteMD plugins used wherever Markdown is rendered (viewer and exports). */
+export const markdownPlugins = [
+  gfm(),
+  highlight(),
+];
+
+/**
+ * Renders Markdown to sanitized HTML with the same pipeline as the ByteMD viewer.
+ */
+export const renderMarkdownToHtml = (markdown: string): string => {
+  return getProcessor({ plugins: markdownPlugins }).processSync(markdown).toString();
+};
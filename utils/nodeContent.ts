@@ -0,0 +1,35 @@
+import { ResearchNode, Role } from '../types';
+
+/**
+ * Helpers deriving display content from a node, shared by the node cards and session export.
+ */
+
+// Parse tool arguments safely
+export const parseToolArgs = (node: ResearchNode | undefined) => {
+  if (node?.role === Role.TOOL_CALL && node.toolArgs) {
+    try {
+      return JSON.parse(node.toolArgs);
+    } catch (e) {
+      return null;
+    }
+  }
+  return null;
+};
+
+// Determine the content for the Final Report component
+export const getFinalReportContent = (node: ResearchNode | undefined, toolArgs: any): string | null => {
+  if (!node?.isFinal) return null;
+  if (node.role === Role.HUMAN) return null;
+  
+  // 1. Priority: Direct content from the final message
+  if (node.content && node.content.trim().length > 0) {
+      return node.content;
+  }
+  
+  // 2. Fallback: 'report' field from complete_task tool args
+  if (node.role === Role.TOOL_CALL && node.name === 'complete_task' && toolArgs?.report) {
+      return toolArgs.report;
+  }
+
+  return null;
+};
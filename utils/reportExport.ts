@@ -0,0 +1,124 @@
+import { SourceInfo, extractCitations, getDomain, replaceSourceTags } from './sources';
+import { renderMarkdownToHtml } from './markdown';
+import { downloadFile, toFileStem } from './download';
+import { formatDateTime, localeStore, t } from '../i18n';
+
+
+/**
+ * The report's title: its first Markdown heading, or a generic one.
+ */
+export const getReportTitle = (report: string): string => {
+  const heading = report.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m);
+  return heading ? heading[1].trim() : t('report.defaultTitle');
+};
+
+/**
+ * Clean Markdown: source tags become numbered links (`[1]`) and a references section is appended.
+ * Pass resolved sources to use page titles in the references.
+ */
+export const reportToMarkdown = (report: string, sources: SourceInfo[] = []): string => {
+  const { citations } = extractCitations(report);
+  const body = replaceSourceTags(report, ({ index, url }) => ` [[${index}]](${url})`).trimEnd();
+
+  if (citations.length === 0) return `${body}\n`;
+
+  const titles = new Map(sources.map(source => [source.url, source.title]));
+  const references = citations
+    .map(({ index, url }) => {
+      const label = (titles.get(url) || getDomain(url)).replace(/[[\]]/g, '');
+      return `${index}. [${label}](${url}) — <${url}>`;
+    })
+    .join('\n');
+
+  return `${body}\n\n## ${t('report.references')}\n\n${references}\n`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Self-contained styles for exported/printed reports (light theme, print-friendly)
+const EXPORT_STYLES = `
+  :root { color-scheme: light; }
+  body { margin: 0; background: #f8fafc; color: #1e293b; font: 16px/1.7 -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", Helvetica, Arial, sans-serif; }
+  main { max-width: 860px; margin: 40px auto; padding: 48px 56px; background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; }
+  h1, h2, h3, h4, h5, h6 { color: #0f172a; line-height: 1.3; margin: 1.6em 0 0.6em; }
+  h1 { font-size: 2em; margin-top: 0; } h2 { font-size: 1.5em; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.3em; }
+  a { color: #2563eb; text-decoration: none; } a:hover { text-decoration: underline; }
+  p, ul, ol, table, pre, blockquote { margin: 0 0 1em; }
+  ul, ol { padding-left: 1.6em; }
+  blockquote { color: #475569; border-left: 4px solid #3b82f6; padding: 0 1em; margin-left: 0; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875em; background: #f1f5f9; border-radius: 4px; padding: 0.15em 0.35em; }
+  pre { background: #f1f5f9; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 16px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  table { border-collapse: collapse; width: 100%; } th, td { border: 1px solid #e2e8f0; padding: 6px 12px; text-align: left; } th { background: #f8fafc; }
+  img { max-width: 100%; }
+  hr { border: none; border-top: 1px solid #e2e8f0; margin: 2em 0; }
+  .report-meta { color: #64748b; font-size: 0.8em; margin-bottom: 2em; }
+  .hljs-keyword, .hljs-selector-tag, .hljs-built_in { color: #7c3aed; } .hljs-string, .hljs-attr { color: #059669; }
+  .hljs-comment { color: #94a3b8; font-style: italic; } .hljs-number, .hljs-literal { color: #d97706; } .hljs-title, .hljs-name { color: #2563eb; }
+  @media print {
+    @page { margin: 18mm 16mm; }
+    body { background: #fff; font-size: 11pt; }
+    main { max-width: none; margin: 0; padding: 0; border: none; border-radius: 0; }
+    h1, h2, h3, h4 { break-after: avoid; page-break-after: avoid; }
+    pre, blockquote, table, img { break-inside: avoid; page-break-inside: avoid; }
+    pre { white-space: pre-wrap; word-break: break-word; }
+    a { color: #1e293b; text-decoration: underline; }
+  }
+`;
+
+/**
+ * A self-contained, styled HTML document of the report (Markdown rendered with the viewer's pipeline).
+ */
+export const reportToHtml = (report: string, sources: SourceInfo[] = []): string => {
+  const title = getReportTitle(report);
+  const content = renderMarkdownToHtml(reportToMarkdown(report, sources));
+  const exportedAt = formatDateTime(localeStore.getLocale(), Date.now());
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+<main>
+<div class="report-meta">Deep Research Viewer · ${escapeHtml(exportedAt)}</div>
+${content}
+</main>
+</body>
+</html>
+`;
+};
+
+export const downloadReportMarkdown = (report: string, sources: SourceInfo[] = []) => {
+  downloadFile(`${toFileStem(getReportTitle(report), 'report')}.md`, reportToMarkdown(report, sources), 'text/markdown');
+};
+
+export const downloadReportHtml = (report: string, sources: SourceInfo[] = []) => {
+  downloadFile(`${toFileStem(getReportTitle(report), 'report')}.html`, reportToHtml(report, sources), 'text/html');
+};
+
+/**
+ * Opens the browser's print dialog for the report alone ("Save as PDF"), using the
+ * exported HTML and its print stylesheet in a hidden frame.
+ */
+export const printReport = (report: string, sources: SourceInfo[] = []) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;visibility:hidden;';
+  document.body.appendChild(frame);
+
+  const cleanup = () => setTimeout(() => frame.remove(), 1000);
+
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return cleanup();
+    win.addEventListener('afterprint', cleanup, { once: true });
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = reportToHtml(report, sources);
+};
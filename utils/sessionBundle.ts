@@ -0,0 +1,239 @@
+import { ChunkMessage, MessageType, ResearchNode, Role } from '../types';
+import { ChunkLogEntry, ResearchTreeState, applyChunks, collectAlternatives, createEmptyTree, settleStreamingNodes } from '../state/researchTree';
+import { getFinalReportContent, parseToolArgs } from './nodeContent';
+import { getReportTitle } from './reportExport';
+import { downloadFile, toFileStem } from './download';
+import { t } from '../i18n';
+
+/**
+ * Portable research sessions: the tree, the raw chunk log and the final report in one JSON file
+ * that can be loaded without a backend.
+ *
+ * Bundles carry a schema version. When the format changes, bump `SESSION_BUNDLE_VERSION` and add a
+ * migration from the previous version to `MIGRATIONS`, so older exports keep loading.
+ */
+
+export const SESSION_BUNDLE_FORMAT = 'deep-research-session';
+export const SESSION_BUNDLE_VERSION = 1;
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  title: string;
+  conversionUuid: string | null;
+  tree: {
+    nodes: ResearchNode[];
+    rootIds: string[];
+    unattachedIds: string[];
+  };
+  chunks: ChunkLogEntry[];
+  report: string | null;
+}
+
+/** A loaded bundle, ready to be put into a tree store. */
+export interface ImportedSession {
+  title: string;
+  exportedAt: string;
+  conversionUuid: string | null;
+  state: ResearchTreeState;
+  chunks: ChunkLogEntry[];
+}
+
+// Upgrades a bundle of version `n` (the key) to version `n + 1`
+const MIGRATIONS: Record<number, (bundle: any) => any> = {};
+
+/**
+ * The session's final report: the last final, non-human node with report content.
+ */
+export const findFinalReport = (state: ResearchTreeState): string | null => {
+  let report: string | null = null;
+  for (const node of state.nodes.values()) {
+    report = getFinalReportContent(node, parseToolArgs(node)) ?? report;
+  }
+  return report;
+};
+
+const getSessionTitle = (state: ResearchTreeState, report: string | null): string => {
+  if (report) return getReportTitle(report);
+  const question = state.rootIds.map(id => state.nodes.get(id)).find(node => node?.role === Role.HUMAN);
+  return question?.content.trim().split('\n')[0].slice(0, 80) || t('session.defaultTitle');
+};
+
+export const createSessionBundle = (
+  state: ResearchTreeState,
+  chunks: readonly ChunkLogEntry[],
+  conversionUuid: string | null
+): SessionBundle => {
+  const report = findFinalReport(state);
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: getSessionTitle(state, report),
+    conversionUuid,
+    tree: {
+      nodes: [...state.nodes.values()],
+      rootIds: state.rootIds,
+      unattachedIds: state.unattachedIds,
+    },
+    chunks: [...chunks],
+    report,
+  };
+};
+
+export const downloadSessionBundle = (bundle: SessionBundle) => {
+  downloadFile(`${toFileStem(bundle.title, 'session')}.session.json`, JSON.stringify(bundle, null, 2), 'application/json');
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const ROLES: string[] = Object.values(Role);
+const MESSAGE_TYPES: string[] = Object.values(MessageType);
+const NODE_STATUSES: string[] = ['streaming', 'completed', 'error', 'cancelled', 'interrupted'] satisfies ResearchNode['status'][];
+
+const textOf = (value: unknown) => (typeof value === 'string' ? value : '');
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const nullableString = (value: unknown) => (typeof value === 'string' ? value : null);
+
+const toAnchor = (value: unknown): ResearchNode['anchor'] =>
+  isObject(value) && typeof value.nodeId === 'string' ? { nodeId: value.nodeId, label: textOf(value.label) } : undefined;
+
+/**
+ * Coerces a bundle node into a `ResearchNode`, or null without a string id or a known role.
+ * Text fields that aren't strings become empty, an unknown status becomes 'completed' and
+ * non-string child ids are dropped, so a hand-edited file can't hand the renderer bad values.
+ */
+const toNode = (value: unknown): ResearchNode | null => {
+  if (!isObject(value) || typeof value.id !== 'string' || !ROLES.includes(value.role)) return null;
+  return {
+    id: value.id,
+    parentId: nullableString(value.parentId),
+    role: value.role,
+    name: textOf(value.name),
+    content: textOf(value.content),
+    toolArgs: textOf(value.toolArgs),
+    toolResult: textOf(value.toolResult),
+    children: Array.isArray(value.children) ? value.children.filter((id: unknown): id is string => typeof id === 'string') : [],
+    status: NODE_STATUSES.includes(value.status) ? value.status : 'completed',
+    timestamp: optionalNumber(value.timestamp) ?? 0,
+    lastChunkAt: optionalNumber(value.lastChunkAt),
+    completedAt: optionalNumber(value.completedAt),
+    chunkCount: optionalNumber(value.chunkCount),
+    alternativeOf: optionalString(value.alternativeOf),
+    messageUuid: optionalString(value.messageUuid),
+    anchor: toAnchor(value.anchor),
+    isFinal: value.isFinal === true,
+  };
+};
+
+/**
+ * Coerces a bundle chunk log entry, or null without a known role, a string message or a finite
+ * arrival time. Ids and names that aren't strings become null, an unknown type becomes 'new', and
+ * options of the wrong type are dropped, the same way as for nodes.
+ */
+const toChunkEntry = (value: unknown): ChunkLogEntry | null => {
+  if (!isObject(value) || !isObject(value.chunk)) return null;
+  const { chunk } = value;
+  const receivedAt = optionalNumber(value.receivedAt);
+  if (!ROLES.includes(chunk.role) || typeof chunk.message !== 'string' || receivedAt === undefined) return null;
+  const message: ChunkMessage = {
+    role: chunk.role,
+    name: nullableString(chunk.name),
+    id: nullableString(chunk.id),
+    parent_id: nullableString(chunk.parent_id),
+    message: chunk.message,
+    type: MESSAGE_TYPES.includes(chunk.type) ? chunk.type : MessageType.NEW,
+  };
+  return {
+    chunk: message,
+    receivedAt,
+    fallbackId: optionalString(value.fallbackId),
+    untimed: value.untimed === true,
+    alternativeOf: optionalString(value.alternativeOf),
+    anchor: toAnchor(value.anchor),
+    messageUuid: optionalString(value.messageUuid),
+  };
+};
+
+/**
+ * Rebuilds the tree state from a bundle's node list. Children pointing at nodes missing from the
+ * bundle are dropped so a hand-edited file can't break rendering.
+ */
+const restoreTree = (tree: SessionBundle['tree']): ResearchTreeState => {
+  const nodes = new Map<string, ResearchNode>(tree.nodes.map(node => [node.id, node]));
+  for (const [nodeId, node] of nodes) {
+    const children = node.children.filter(childId => nodes.has(childId));
+    // Anything still streaming when exported can't continue here
+    const status = node.status === 'streaming' ? 'completed' : node.status;
+    if (children.length !== node.children.length || status !== node.status) {
+      nodes.set(nodeId, { ...node, children, status, completedAt: status !== node.status ? node.lastChunkAt : node.completedAt });
+    }
+  }
+  const rootIds = tree.rootIds.length > 0
+    ? tree.rootIds.filter(id => nodes.has(id))
+    : [...nodes.values()].filter(node => !node.parentId).map(node => node.id);
+  return {
+    nodes,
+    rootIds,
+    pendingChildren: new Map(),
+    unattachedIds: Array.isArray(tree.unattachedIds) ? tree.unattachedIds.filter(id => typeof id === 'string' && nodes.has(id)) : [],
+    alternatives: collectAlternatives(nodes, rootIds),
+  };
+};
+
+/**
+ * Parses and validates a bundle file, migrating older versions to the current one.
+ * Throws an `Error` with a user-facing message when the file can't be loaded.
+ */
+export const parseSessionBundle = (text: string): ImportedSession => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(t('session.error.invalidJson'));
+  }
+
+  if (!isObject(data) || data.format !== SESSION_BUNDLE_FORMAT) {
+    throw new Error(t('session.error.notBundle'));
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new Error(t('session.error.noVersion'));
+  }
+  if (data.version > SESSION_BUNDLE_VERSION) {
+    throw new Error(t('session.error.newerVersion', { version: data.version, supported: SESSION_BUNDLE_VERSION }));
+  }
+
+  for (let version = data.version; version < SESSION_BUNDLE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(t('session.error.noMigration', { version }));
+    data = migrate(data);
+  }
+
+  const chunks: ChunkLogEntry[] = Array.isArray(data.chunks)
+    ? data.chunks.map(toChunkEntry).filter((entry: ChunkLogEntry | null): entry is ChunkLogEntry => entry !== null)
+    : [];
+  const nodes: ResearchNode[] = isObject(data.tree) && Array.isArray(data.tree.nodes)
+    ? data.tree.nodes.map(toNode).filter((node: ResearchNode | null): node is ResearchNode => node !== null)
+    : [];
+
+  // The chunk log alone is enough to rebuild the tree if the snapshot is missing
+  let state: ResearchTreeState;
+  if (nodes.length > 0) {
+    state = restoreTree({ nodes, rootIds: Array.isArray(data.tree.rootIds) ? data.tree.rootIds : [], unattachedIds: data.tree.unattachedIds });
+  } else if (chunks.length > 0) {
+    state = settleStreamingNodes(applyChunks(createEmptyTree(), chunks));
+  } else {
+    throw new Error(t('session.error.empty'));
+  }
+
+  return {
+    title: typeof data.title === 'string' && data.title ? data.title : t('session.defaultTitle'),
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    conversionUuid: typeof data.conversionUuid === 'string' ? data.conversionUuid : null,
+    state,
+    chunks,
+  };
+};
@@ -0,0 +1,263 @@
+import { ResearchNode, Role } from '../types';
+
+/**
+ * Helpers for the `<source: url>` / `<source>url</source>` citation tags the agent puts in reports.
+ */
+
+// Pattern 1: <source: http://example.com>
+// Pattern 2: <source>http://example.com</source>
+// Spaces before the tag are part of the match so replacements control their own spacing
+const SOURCE_TAG = /[ \t]*(?:<source:\s*([^>]+)>|<source>(.*?)<\/source>)/gi;
+
+export interface Citation {
+  index: number; // 1-based, in order of first appearance
+  url: string;
+}
+
+/**
+ * Replaces every source tag with `format(citation)`. Empty tags are dropped.
+ */
+export const replaceSourceTags = (report: string, format: (citation: Citation) => string): string => {
+  const { citations } = extractCitations(report);
+  const byUrl = new Map(citations.map(c => [c.url, c]));
+  return report.replace(SOURCE_TAG, (_, colonUrl: string | undefined, tagUrl: string | undefined) => {
+    const citation = byUrl.get((colonUrl ?? tagUrl ?? '').trim());
+    return citation ? format(citation) : '';
+  });
+};
+
+/**
+ * Collects the cited URLs, de-duplicated and numbered in order of first appearance.
+ */
+export const extractCitations = (report: string): { citations: Citation[] } => {
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+  for (const match of report.matchAll(SOURCE_TAG)) {
+    const url = (match[1] ?? match[2] ?? '').trim();
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+    citations.push({ index: citations.length + 1, url });
+  }
+  return { citations };
+};
+
+export const getDomain = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return url;
+  }
+};
+
+/**
+ * What we know about a cited URL from the research tree.
+ */
+export interface SourceInfo extends Citation {
+  domain: string;
+  title?: string;
+  snippet?: string;
+  nodeId?: string; // The fetch/search tool call that retrieved the URL
+}
+
+const URL_KEYS = ['url', 'link', 'href', 'source', 'uri'];
+const TITLE_KEYS = ['title', 'name', 'page_title'];
+const SNIPPET_KEYS = ['snippet', 'description', 'summary', 'content', 'text', 'body'];
+const SNIPPET_LENGTH = 280;
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '').replace(/^https?:\/\/(www\.)?/, '').toLowerCase();
+
+/**
+ * The first non-empty string among `keys` of `obj`, trimmed.
+ */
+export const pickString = (obj: Record<string, unknown>, keys: string[]) => {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+};
+
+/**
+ * Parses tool output that looks like a JSON object or array; undefined for anything else.
+ */
+export const tryParseJson = (text: string | undefined): unknown => {
+  if (!text) return undefined;
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export interface ResultEntry {
+  url: string;
+  title?: string;
+  snippet?: string;
+}
+
+/**
+ * Walks parsed tool output and records `{ url -> title/snippet }` for every object carrying a URL.
+ */
+const collectResultEntries = (value: unknown, into: Map<string, ResultEntry>, depth = 0) => {
+  if (depth > 6 || value === null || typeof value !== 'object') return;
+  if (Array.isArray(value)) {
+    value.forEach(item => collectResultEntries(item, into, depth + 1));
+    return;
+  }
+  const obj = value as Record<string, unknown>;
+  const url = pickString(obj, URL_KEYS);
+  if (url && /^https?:\/\//i.test(url)) {
+    const key = normalizeUrl(url);
+    const existing = into.get(key);
+    into.set(key, {
+      url: existing?.url || url,
+      title: existing?.title || pickString(obj, TITLE_KEYS),
+      snippet: existing?.snippet || pickString(obj, SNIPPET_KEYS)?.slice(0, SNIPPET_LENGTH),
+    });
+  }
+  Object.values(obj).forEach(child => collectResultEntries(child, into, depth + 1));
+};
+
+/**
+ * Links listed in parsed tool output (e.g. search results), in order and de-duplicated.
+ */
+export const listResultLinks = (value: unknown): ResultEntry[] => {
+  const entries = new Map<string, ResultEntry>();
+  collectResultEntries(value, entries);
+  return [...entries.values()];
+};
+
+/**
+ * Page title of a plain-text fetch result (HTML `<title>`, a "Title:" line or a leading Markdown heading).
+ */
+export const plainTextTitle = (text: string): string | undefined => {
+  const htmlTitle = text.match(/<title[^>]*>([^<]{1,200})<\/title>/i);
+  if (htmlTitle) return htmlTitle[1].trim();
+  const labelled = text.match(/^\s*(?:title|标题)\s*[:：]\s*(.{1,200})$/im);
+  if (labelled) return labelled[1].trim();
+  const heading = text.match(/^\s*#\s+(.{1,200})$/m);
+  return heading ? heading[1].trim() : undefined;
+};
+
+// URLs mentioned in plain-text tool output
+const TEXT_URL = /https?:\/\/[^\s"'<>()[\]{}]+/gi;
+
+/**
+ * What the cited-source lookup knows about one tool node, derived once per node object
+ * (nodes are replaced, not mutated, when they change).
+ */
+interface NodeSources {
+  callId: string;
+  isFetch: boolean;
+  argKey?: string;         // Normalized URL named in the call's arguments
+  resultKeys: string[];    // Normalized URLs found in the output, in order
+  entries: Map<string, ResultEntry>;
+  fetchTitle?: string;     // Page title of a plain-text fetch result
+}
+
+const nodeSourcesCache = new WeakMap<ResearchNode, NodeSources>();
+
+const getNodeSources = (node: ResearchNode, nodes: Map<string, ResearchNode>): NodeSources => {
+  const cached = nodeSourcesCache.get(node);
+  if (cached) return cached;
+
+  // Tool results may live on the call node itself or on a child `tool` node
+  const callNode = node.role === Role.TOOL_CALL ? node : (node.parentId ? nodes.get(node.parentId) : undefined);
+  const toolName = (callNode?.name || node.name || '').toLowerCase();
+  const args = tryParseJson(node.toolArgs) as Record<string, unknown> | undefined;
+  const argUrl = args && typeof args === 'object' && !Array.isArray(args) ? pickString(args, URL_KEYS) : undefined;
+
+  const result = node.toolResult || '';
+  const parsed = tryParseJson(result);
+  const entries = new Map<string, ResultEntry>();
+  if (parsed !== undefined) collectResultEntries(parsed, entries);
+  const resultKeys = [...new Set([
+    ...entries.keys(),
+    ...[...result.matchAll(TEXT_URL)].map(match => normalizeUrl(match[0].replace(/[.,;:!?]+$/, ''))),
+  ])];
+
+  const isFetch = toolName.includes('fetch') || toolName.includes('read') || toolName.includes('browse');
+  const sources: NodeSources = {
+    callId: callNode?.role === Role.TOOL_CALL ? callNode.id : node.id,
+    isFetch,
+    argKey: argUrl ? normalizeUrl(argUrl) : undefined,
+    resultKeys,
+    entries,
+    fetchTitle: isFetch && result && parsed === undefined ? plainTextTitle(result) : undefined,
+  };
+  nodeSourcesCache.set(node, sources);
+  return sources;
+};
+
+/**
+ * Every URL the tool calls and results of a tree retrieved, by normalized URL: which fetch call
+ * retrieved it, which call merely listed it (e.g. search results), and its title and snippet.
+ */
+export interface SourceIndex {
+  /** The tool nodes the index was built from, to reuse it while they are unchanged. */
+  toolNodes: ResearchNode[];
+  fetchedBy: Map<string, string>;
+  listedBy: Map<string, string>;
+  entries: Map<string, ResultEntry>;
+  fetchTitles: Map<string, string>;
+}
+
+export const EMPTY_SOURCE_INDEX: SourceIndex = {
+  toolNodes: [],
+  fetchedBy: new Map(),
+  listedBy: new Map(),
+  entries: new Map(),
+  fetchTitles: new Map(),
+};
+
+/**
+ * Indexes the tree's tool calls and results by URL. Returns `previous` when no tool node changed,
+ * so callers can select it from the store without re-rendering on unrelated updates.
+ * Fetch calls whose arguments name the URL win over search calls that merely listed it.
+ */
+export const buildSourceIndex = (nodes: Map<string, ResearchNode>, previous: SourceIndex = EMPTY_SOURCE_INDEX): SourceIndex => {
+  const toolNodes: ResearchNode[] = [];
+  for (const node of nodes.values()) {
+    if (node.role === Role.TOOL_CALL || node.role === Role.TOOL) toolNodes.push(node);
+  }
+  if (toolNodes.length === previous.toolNodes.length && toolNodes.every((node, i) => node === previous.toolNodes[i])) {
+    return previous;
+  }
+
+  const index: SourceIndex = { toolNodes, fetchedBy: new Map(), listedBy: new Map(), entries: new Map(), fetchTitles: new Map() };
+  for (const node of toolNodes) {
+    const { callId, isFetch, argKey, resultKeys, entries, fetchTitle } = getNodeSources(node, nodes);
+    if (argKey && !index.fetchedBy.has(argKey)) index.fetchedBy.set(argKey, callId);
+    for (const key of resultKeys) {
+      if (isFetch && !index.fetchedBy.has(key)) index.fetchedBy.set(key, callId);
+      else if (!index.listedBy.has(key)) index.listedBy.set(key, callId);
+    }
+    for (const [key, entry] of entries) {
+      const existing = index.entries.get(key);
+      index.entries.set(key, existing
+        ? { url: existing.url, title: existing.title || entry.title, snippet: existing.snippet || entry.snippet }
+        : entry);
+    }
+    if (argKey && fetchTitle && !index.fetchTitles.has(argKey)) index.fetchTitles.set(argKey, fetchTitle);
+  }
+  return index;
+};
+
+/**
+ * Resolves citations against the source index of the research tree: the tool call that retrieved
+ * each URL and, when its output allows, the page title and a snippet for previews.
+ */
+export const resolveSources = (citations: Citation[], index: SourceIndex): SourceInfo[] =>
+  citations.map(citation => {
+    const key = normalizeUrl(citation.url);
+    const entry = index.entries.get(key);
+    return {
+      ...citation,
+      domain: getDomain(citation.url),
+      title: entry?.title || index.fetchTitles.get(key),
+      snippet: entry?.snippet,
+      nodeId: index.fetchedBy.get(key) || index.listedBy.get(key),
+    };
+  });
@@ -0,0 +1,86 @@
+/**
+ * Content-type sniffing and preparation of tool output for display.
+ */
+
+export type OutputFormat = 'json' | 'markdown' | 'html' | 'text';
+
+// Above this size JSON isn't parsed for the tree view (it would block the main thread for too long)
+const MAX_JSON_PARSE_LENGTH = 5_000_000;
+// Sniffing only looks at the start of the output
+const SNIFF_LENGTH = 20_000;
+
+const HTML_DOCUMENT = /^\s*(?:<!doctype html|<html[\s>]|<head[\s>]|<body[\s>])/i;
+const HTML_TAG = /<\/?(?:div|p|span|a|table|tr|td|ul|ol|li|h[1-6]|br|img|section|article|header|footer|nav|main|strong|em)\b[^>]*>/gi;
+const MARKDOWN_SIGNALS = [
+  /^#{1,6}\s+\S/m,              // Headings
+  /^\s*[-*+]\s+\S/m,            // Bullet lists
+  /^\s*\d+\.\s+\S/m,            // Numbered lists
+  /\[[^\]\n]+\]\([^)\s]+\)/,     // Links
+  /^```/m,                      // Code fences
+  /^\s*\|.*\|\s*$\n^\s*\|?\s*:?-{3,}/m, // Tables
+  /\*\*[^*\n]+\*\*/,            // Bold
+  /^>\s+\S/m,                   // Block quotes
+];
+
+/**
+ * Guesses how tool output should be shown from its first characters: JSON objects/arrays, HTML
+ * documents or fragments with several tags, Markdown with at least two distinct Markdown
+ * constructs, otherwise plain text. JSON is only recognized by shape; see `parseJsonOutput`.
+ */
+export const sniffOutputFormat = (text: string): OutputFormat => {
+  const head = text.slice(0, SNIFF_LENGTH).trim();
+  const tail = text.slice(-100).trim();
+  if (/^[{[]/.test(head) && /[}\]]$/.test(tail)) return 'json';
+  if (HTML_DOCUMENT.test(head) || (head.match(HTML_TAG) || []).length >= 5) return 'html';
+  if (MARKDOWN_SIGNALS.filter(pattern => pattern.test(head)).length >= 2) return 'markdown';
+  return 'text';
+};
+
+/**
+ * Parses JSON output for the tree view; undefined when it isn't valid JSON or is too large to parse.
+ */
+export const parseJsonOutput = (text: string): unknown => {
+  if (text.length > MAX_JSON_PARSE_LENGTH) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const OUTPUT_FILE_TYPES: Record<OutputFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+};
+
+const DROPPED_ELEMENTS = 'script, style, iframe, frame, frameset, object, embed, applet, form, input, button, textarea, select, link, meta, base, noscript, template';
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'poster', 'background', 'xlink:href'];
+const SAFE_URL = /^(?:https?:|mailto:|#|\/|\.|data:image\/(?:png|gif|jpe?g|webp);)/i;
+
+/**
+ * Strips active content from untrusted HTML: scripts, styles, frames, forms, event handler
+ * attributes and non-http(s) URLs. Parsing happens in an inert document, so nothing runs or loads.
+ * The result is meant for a sandboxed iframe, which blocks scripts again as a second line of defence.
+ */
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll(DROPPED_ELEMENTS).forEach(element => element.remove());
+  doc.querySelectorAll('*').forEach(element => {
+    for (const attribute of [...element.attributes]) {
+      const name = attribute.name.toLowerCase();
+      if (name.startsWith('on') || name === 'style' || name === 'srcset') {
+        element.removeAttribute(attribute.name);
+      } else if (URL_ATTRIBUTES.includes(name) && !SAFE_URL.test(attribute.value.trim())) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+    // Links open outside the preview
+    if (element.tagName === 'A') {
+      element.setAttribute('target', '_blank');
+      element.setAttribute('rel', 'noopener noreferrer');
+    }
+  });
+  return doc.body.innerHTML;
+};